@@ -35,6 +35,8 @@ env() {
   
   export WINE_BASE_PATH="$HOME/Wine"
   export WINE_LIBS_PATH="$WINE_BASE_PATH/libs"
+  # Wrapper archives, given by the library app or copied by it at startup.
+  export COMPRESSED_PATH="${COMPRESSED_PATH:-$WINE_LIBS_PATH/compressed}"
   export WINE_ENGINES_PATH="$WINE_BASE_PATH/engines"
   export WINE_APP_CONTENTS_PATH=$dir
   export WINE_APP_SHARED_SUPPORT_PATH=$WINE_APP_CONTENTS_PATH/SharedSupport
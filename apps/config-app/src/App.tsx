@@ -1,19 +1,36 @@
 import { Component, createSignal, Show } from 'solid-js';
 import { useRoutes } from '@solidjs/router';
 import { routes } from '@routes';
+import { Typography } from 'www-shared';
 import { useAppModel } from '@models';
 
 export const App: Component = () => {
   const appModel = useAppModel();
   const [loading, setLoading] = createSignal(true);
+  const [error, setError] = createSignal('');
 
+  /**
+   * A corrupt or unsupported config.json is reported instead
+   * of rendering the config pages.
+   */
   const init = async () => {
-    setLoading(true);
-    await Promise.all([appModel.initEnv(), appModel.initConfig()]);
-    setLoading(false);
+    try {
+      setLoading(true);
+      await Promise.all([appModel.initEnv(), appModel.initConfig()]);
+    } catch (error) {
+      setError(`${error}`);
+    } finally {
+      setLoading(false);
+    }
   };
 
   init();
 
-  return <Show when={!loading()}>{useRoutes(routes)}</Show>;
+  return (
+    <Show when={!loading()}>
+      <Show when={!error()} fallback={<Typography>{error()}</Typography>}>
+        {useRoutes(routes)}
+      </Show>
+    </Show>
+  );
 };
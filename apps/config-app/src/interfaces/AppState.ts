@@ -1,7 +1,9 @@
-import { AppState as BaseAppState, WineApp } from 'desktop-shared';
+import { AppState as BaseAppState, InfoPlist, WineApp } from 'desktop-shared';
 
 export type AppState = BaseAppState & {
   config: WineApp;
   initializingConfig: boolean;
   updatingConfig: boolean;
+  infoPlist?: InfoPlist;
+  updatingInfoPlist: boolean;
 };
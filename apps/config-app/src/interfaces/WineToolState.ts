@@ -0,0 +1,3 @@
+import { WineTool } from 'desktop-shared';
+
+export type WineToolState = Record<WineTool, { running: boolean }>;
@@ -1 +1,2 @@
 export * from './AppState';
+export * from './WineToolState';
@@ -1 +1,2 @@
 export * from './useAppModel';
+export * from './useWineToolModel';
@@ -1,11 +1,17 @@
 import { useAppState } from '@states';
 import { useAppConfig } from '@utils';
-import { useAppModel as useBaseAppModel, WineApp } from 'desktop-shared';
+import {
+  InfoPlist,
+  useAppModel as useBaseAppModel,
+  useInfoPlistApiClient,
+  WineApp,
+} from 'desktop-shared';
 
 export const useAppModel = () => {
   const baseAppModel = useBaseAppModel();
   const appState = useAppState();
   const appConfig = useAppConfig();
+  const infoPlistApiClient = useInfoPlistApiClient();
 
   const initConfig = async () => {
     try {
@@ -19,6 +25,7 @@ export const useAppModel = () => {
   const updateConfig = async (data: WineApp) => {
     try {
       appState.updatingConfig(true);
+      await appConfig.write(data);
       appState.updateConfig(data);
     } finally {
       appState.updatingConfig(false);
@@ -27,5 +34,32 @@ export const useAppModel = () => {
 
   const selectConfig = () => appState.store.config;
 
-  return { ...baseAppModel, initConfig, updateConfig, selectConfig };
+  const initInfoPlist = async () => {
+    appState.setInfoPlist(await infoPlistApiClient.read());
+  };
+
+  const updateInfoPlist = async (data: InfoPlist) => {
+    try {
+      appState.updatingInfoPlist(true);
+      await infoPlistApiClient.write(data);
+      appState.setInfoPlist(data);
+    } finally {
+      appState.updatingInfoPlist(false);
+    }
+  };
+
+  const selectInfoPlist = () => () => appState.store.infoPlist;
+
+  const selectUpdatingInfoPlist = () => () => appState.store.updatingInfoPlist;
+
+  return {
+    ...baseAppModel,
+    initConfig,
+    updateConfig,
+    selectConfig,
+    initInfoPlist,
+    updateInfoPlist,
+    selectInfoPlist,
+    selectUpdatingInfoPlist,
+  };
 };
@@ -0,0 +1,34 @@
+import { useWineToolState } from '@states';
+import { useWineApp, WineTool } from 'desktop-shared';
+
+export const useWineToolModel = () => {
+  const wineApp = useWineApp();
+  const wineToolState = useWineToolState();
+
+  const run = async (tool: WineTool) => {
+    wineToolState.running(tool, true);
+    const { cmd } = await wineApp[tool]();
+    cmd.on('close', () => {
+      wineToolState.running(tool, false);
+    });
+    cmd.stderr.on('data', (data) => console.error(data));
+    cmd.stdout.on('data', (data) => console.log(data));
+  };
+
+  /**
+   * Kills the wine processes and releases the tools flagged as running.
+   */
+  const killWineProcesses = async () => {
+    try {
+      return await wineApp.killWineProcesses();
+    } finally {
+      wineToolState.reset();
+    }
+  };
+
+  const selectRunning = (tool: WineTool) => {
+    return () => wineToolState.store[tool].running;
+  };
+
+  return { run, killWineProcesses, selectRunning };
+};
@@ -0,0 +1,232 @@
+import { Component, For, onMount, Show } from 'solid-js';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Grid,
+  Select,
+  TextInput,
+  Typography,
+  useFormHandler,
+} from 'www-shared';
+import { InfoPlistDocumentType } from 'desktop-shared';
+import { useAppModel } from '@models';
+import { DocumentTypeSchema, schema, Schema } from './schema';
+
+const ROLE_OPTIONS = ['Viewer', 'Editor', 'Shell', 'None'].map((role) => ({
+  value: role,
+  label: role,
+}));
+
+export const BundleInfo: Component = () => {
+  const appModel = useAppModel();
+  const infoPlist = appModel.selectInfoPlist();
+  const updating = appModel.selectUpdatingInfoPlist();
+  const formHandler = useFormHandler<Schema>(schema);
+  const { formData } = formHandler;
+
+  /**
+   * Document type extensions are edited as comma separated text.
+   */
+  const toDocumentTypeSchema = (
+    documentType: InfoPlistDocumentType
+  ): DocumentTypeSchema => ({
+    ...documentType,
+    CFBundleTypeExtensions: documentType.CFBundleTypeExtensions.join(', '),
+  });
+
+  const toDocumentType = (
+    documentType: DocumentTypeSchema
+  ): InfoPlistDocumentType => ({
+    ...documentType,
+    CFBundleTypeExtensions: documentType.CFBundleTypeExtensions.split(',')
+      .map((extension) => extension.trim())
+      .filter(Boolean),
+  });
+
+  const addDocumentType = async () => {
+    const index = formData().CFBundleDocumentTypes.length;
+    await formHandler.addFieldset({ basePath: 'CFBundleDocumentTypes' });
+    formHandler.setFieldValue(
+      `CFBundleDocumentTypes.${index}.CFBundleTypeRole`,
+      'Viewer'
+    );
+  };
+
+  const removeDocumentType = (index: number) => {
+    formHandler.removeFieldset(index, 'CFBundleDocumentTypes');
+  };
+
+  /**
+   * Keys which aren't edited here are kept.
+   */
+  const submit = async (event: Event) => {
+    event.preventDefault();
+    const currentInfoPlist = infoPlist();
+    if (!currentInfoPlist) return;
+
+    try {
+      await formHandler.validateForm();
+      await appModel.updateInfoPlist({
+        ...currentInfoPlist,
+        ...formData(),
+        CFBundleDocumentTypes:
+          formData().CFBundleDocumentTypes.map(toDocumentType),
+      });
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  onMount(async () => {
+    try {
+      await appModel.initInfoPlist();
+      const data = infoPlist();
+      data &&
+        formHandler.fillForm({
+          CFBundleName: data.CFBundleName,
+          CFBundleIdentifier: data.CFBundleIdentifier,
+          CFBundleShortVersionString: data.CFBundleShortVersionString,
+          CFBundleVersion: data.CFBundleVersion,
+          LSMinimumSystemVersion: data.LSMinimumSystemVersion,
+          NSHighResolutionCapable: data.NSHighResolutionCapable,
+          CFBundleDocumentTypes: (data.CFBundleDocumentTypes || []).map(
+            toDocumentTypeSchema
+          ),
+        });
+    } catch (error) {
+      console.error(error);
+    }
+  });
+
+  return (
+    <form onSubmit={submit}>
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <Typography component="h5">Bundle Info</Typography>
+        </Grid>
+        <Show
+          when={infoPlist()}
+          fallback={
+            <Grid item xs={12}>
+              <Typography>Info.plist could not be read.</Typography>
+            </Grid>
+          }
+        >
+          <Grid item xs={12} md={6}>
+            <TextInput
+              label="Display Name"
+              name="CFBundleName"
+              formHandler={formHandler}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextInput
+              label="Bundle Identifier"
+              placeholder="com.wine-mac-apps.app"
+              name="CFBundleIdentifier"
+              formHandler={formHandler}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextInput
+              label="Version"
+              placeholder="1.0.0"
+              name="CFBundleShortVersionString"
+              formHandler={formHandler}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextInput
+              label="Build"
+              placeholder="1"
+              name="CFBundleVersion"
+              formHandler={formHandler}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextInput
+              label="Minimum macOS Version"
+              placeholder="10.15"
+              name="LSMinimumSystemVersion"
+              formHandler={formHandler}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Checkbox
+              label="High Resolution Capable"
+              display="switch"
+              name="NSHighResolutionCapable"
+              formHandler={formHandler}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Typography component="h6">Document Types</Typography>
+          </Grid>
+          <For each={formData().CFBundleDocumentTypes}>
+            {(_, index) => (
+              <>
+                <Grid item xs={12} md={4}>
+                  <TextInput
+                    label="Name"
+                    placeholder="Text Document"
+                    name={`CFBundleDocumentTypes.${index()}.CFBundleTypeName`}
+                    formHandler={formHandler}
+                  />
+                </Grid>
+                <Grid item xs={12} md={2}>
+                  <Select
+                    label="Role"
+                    name={`CFBundleDocumentTypes.${index()}.CFBundleTypeRole`}
+                    options={ROLE_OPTIONS}
+                    formHandler={formHandler}
+                  />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <TextInput
+                    label="Extensions"
+                    placeholder="txt, log"
+                    name={`CFBundleDocumentTypes.${index()}.CFBundleTypeExtensions`}
+                    formHandler={formHandler}
+                  />
+                </Grid>
+                <Grid item xs={12} md={2}>
+                  <Box display="flex" alignItems="flex-end" fullHeight>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      color="secondary"
+                      onClick={() => removeDocumentType(index())}
+                    >
+                      Remove
+                    </Button>
+                  </Box>
+                </Grid>
+              </>
+            )}
+          </For>
+          <Grid item xs={12}>
+            <Box display="flex" justifyContent="flex-end">
+              <Box mr={3}>
+                <Button
+                  type="button"
+                  variant="outline"
+                  color="secondary"
+                  onClick={addDocumentType}
+                >
+                  Add Document Type
+                </Button>
+              </Box>
+              <Button
+                type="submit"
+                disabled={formHandler.isFormInvalid() || updating()}
+              >
+                Save
+              </Button>
+            </Box>
+          </Grid>
+        </Show>
+      </Grid>
+    </form>
+  );
+};
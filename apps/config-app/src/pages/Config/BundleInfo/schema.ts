@@ -0,0 +1,57 @@
+import { yup, SchemaOf } from 'www-shared';
+import { InfoPlist, InfoPlistDocumentType } from 'desktop-shared';
+
+export type DocumentTypeSchema = Omit<
+  InfoPlistDocumentType,
+  'CFBundleTypeExtensions'
+> & { CFBundleTypeExtensions: string };
+
+export type Schema = Pick<
+  InfoPlist,
+  | 'CFBundleName'
+  | 'CFBundleIdentifier'
+  | 'CFBundleShortVersionString'
+  | 'CFBundleVersion'
+  | 'LSMinimumSystemVersion'
+  | 'NSHighResolutionCapable'
+> & { CFBundleDocumentTypes: DocumentTypeSchema[] };
+
+export const schema: SchemaOf<Schema> = yup.object({
+  CFBundleName: yup.string().required(),
+  CFBundleIdentifier: yup
+    .string()
+    .matches(/^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/, 'Invalid bundle identifier')
+    .required(),
+  CFBundleShortVersionString: yup
+    .string()
+    .matches(/^\d+(\.\d+){0,2}$/, 'Use up to three numbers, e.g. 1.0.0')
+    .required(),
+  CFBundleVersion: yup
+    .string()
+    .matches(/^\d+(\.\d+){0,2}$/, 'Use up to three numbers, e.g. 1')
+    .required(),
+  LSMinimumSystemVersion: yup
+    .string()
+    .matches(/^\d+(\.\d+){0,2}$/, 'Invalid macOS version, e.g. 10.15')
+    .required(),
+  NSHighResolutionCapable: yup.boolean().default(true),
+  CFBundleDocumentTypes: yup
+    .array(
+      yup.object({
+        CFBundleTypeName: yup.string().required(),
+        CFBundleTypeRole: yup
+          .mixed()
+          .oneOf(['Editor', 'Viewer', 'Shell', 'None'])
+          .required(),
+        CFBundleTypeExtensions: yup
+          .string()
+          .matches(
+            /^\s*[\w*-]+(\s*,\s*[\w*-]+)*\s*$/,
+            'Use comma separated extensions, e.g. txt, log'
+          )
+          .required(),
+        CFBundleTypeIconFile: yup.string().optional(),
+      })
+    )
+    .default([]),
+});
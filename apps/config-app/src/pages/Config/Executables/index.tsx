@@ -1,19 +1,277 @@
-import { Component } from 'solid-js';
-import { Grid, Typography, TextInput } from 'www-shared';
-import { FilePathInput } from 'desktop-shared';
+import {
+  Component,
+  createMemo,
+  createSignal,
+  For,
+  onMount,
+  Show,
+} from 'solid-js';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormHelperText,
+  Grid,
+  Select,
+  TextInput,
+  Typography,
+  useFormHandler,
+} from 'www-shared';
+import { Env, useWineApp, WineAppExecutable } from 'desktop-shared';
+import { useAppModel } from '@models';
+import { ExecutableSchema, schema, Schema } from './schema';
 
 export const Executables: Component = () => {
+  const appModel = useAppModel();
+  const config = appModel.selectConfig();
+  const wineApp = useWineApp();
+  const formHandler = useFormHandler<Schema>(schema);
+  const { formData } = formHandler;
+  const [prefixExecutables, setPrefixExecutables] = createSignal<
+    Array<{ value: string; label: string }>
+  >([]);
+
+  /**
+   * Configured executables are kept as options even if they
+   * are not found inside the prefix anymore.
+   */
+  const options = createMemo(() => {
+    const options = [...prefixExecutables()];
+    for (const executable of config.executables) {
+      !options.some((option) => option.value === executable.path) &&
+        options.push({
+          value: executable.path,
+          label: executable.path.split('/').pop() || '',
+        });
+    }
+    return options;
+  });
+
+  /**
+   * Env vars are edited as name/value rows and stored as an object.
+   */
+  const toExecutableSchema = (
+    executable: WineAppExecutable
+  ): ExecutableSchema => ({
+    ...executable,
+    env: Object.entries(executable.env || {}).map(([name, value]) => ({
+      name,
+      value: `${value}`,
+    })),
+  });
+
+  const toExecutable = (executable: ExecutableSchema): WineAppExecutable => ({
+    ...executable,
+    env: executable.env.reduce<Env>(
+      (env, item) => ({ ...env, [item.name]: item.value }),
+      {}
+    ),
+  });
+
+  const addExecutable = async () => {
+    const index = formData().executables.length;
+    await formHandler.addFieldset({ basePath: 'executables' });
+    formHandler.setFieldValue(`executables.${index}.main`, index === 0);
+    formHandler.setFieldValue(`executables.${index}.flags`, '');
+    formHandler.setFieldValue(`executables.${index}.cwd`, '');
+    formHandler.setFieldValue(`executables.${index}.env`, []);
+  };
+
+  const removeExecutable = (index: number) => {
+    formHandler.removeFieldset(index, 'executables');
+  };
+
+  const addEnvVar = async (index: number) => {
+    const envIndex = formData().executables[index].env.length;
+    const basePath = `executables.${index}.env`;
+    await formHandler.addFieldset({ basePath });
+    formHandler.setFieldValue(`${basePath}.${envIndex}.value`, '');
+  };
+
+  const removeEnvVar = (index: number, envIndex: number) => {
+    formHandler.removeFieldset(envIndex, `executables.${index}.env`);
+  };
+
+  /**
+   * Runs the executable with its unsaved flags, env vars and
+   * working directory, for trying them out before saving.
+   */
+  const runExecutable = async (index: number) => {
+    try {
+      await wineApp.runProgram(toExecutable(formData().executables[index]));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  /**
+   * Only one executable can be launched as main.
+   */
+  const setMain = (index: number) => {
+    formData().executables.forEach((_, i) => {
+      formHandler.setFieldValue(`executables.${i}.main`, i === index, {
+        validateOn: ['change'],
+      });
+    });
+  };
+
+  const submit = async (event: Event) => {
+    event.preventDefault();
+    try {
+      await formHandler.validateForm();
+      await appModel.updateConfig({
+        ...config,
+        executables: formData().executables.map(toExecutable),
+      });
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  onMount(async () => {
+    formHandler.fillForm({
+      executables: config.executables.map(toExecutableSchema),
+    });
+    setPrefixExecutables(await wineApp.listExecutables());
+  });
+
   return (
-    <Grid container spacing={3}>
-      <Grid item>
-        <Typography component="h5">Executables Config</Typography>
-      </Grid>
-      <Grid item>
-        <FilePathInput />
-      </Grid>
-      <Grid item>
-        <TextInput label="Exe Flags" name="flags" />
+    <form onSubmit={submit}>
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <Typography component="h5">Executables Config</Typography>
+        </Grid>
+        <For each={formData().executables}>
+          {(executable, index) => (
+            <Grid item xs={12}>
+              <Grid container spacing={3}>
+                <Grid item xs={12} md={5}>
+                  <Select
+                    label="Executable"
+                    placeholder="Select an executable"
+                    name={`executables.${index()}.path`}
+                    options={options()}
+                    formHandler={formHandler}
+                  />
+                </Grid>
+                <Grid item xs={12} md={4}>
+                  <TextInput
+                    label="Exe Flags"
+                    name={`executables.${index()}.flags`}
+                    formHandler={formHandler}
+                  />
+                </Grid>
+                <Grid item xs={12} md={3}>
+                  <Box display="flex" alignItems="center" fullHeight>
+                    <Box mr={3}>
+                      <Checkbox
+                        label="Main"
+                        display="switch"
+                        checked={executable.main}
+                        onChange={() => setMain(index())}
+                      />
+                    </Box>
+                    <Box mr={3}>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        color="secondary"
+                        disabled={!executable.path}
+                        onClick={() => runExecutable(index())}
+                      >
+                        Run
+                      </Button>
+                    </Box>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      color="secondary"
+                      onClick={() => removeExecutable(index())}
+                    >
+                      Remove
+                    </Button>
+                  </Box>
+                </Grid>
+                <Grid item xs={12} md={9}>
+                  <TextInput
+                    label="Working Directory"
+                    placeholder="/drive_c/Program Files/App"
+                    name={`executables.${index()}.cwd`}
+                    formHandler={formHandler}
+                  />
+                </Grid>
+                <For each={executable.env}>
+                  {(_, envIndex) => (
+                    <>
+                      <Grid item xs={12} md={4}>
+                        <TextInput
+                          label="Env Var"
+                          placeholder="WINEDLLOVERRIDES"
+                          name={`executables.${index()}.env.${envIndex()}.name`}
+                          formHandler={formHandler}
+                        />
+                      </Grid>
+                      <Grid item xs={12} md={5}>
+                        <TextInput
+                          label="Value"
+                          name={`executables.${index()}.env.${envIndex()}.value`}
+                          formHandler={formHandler}
+                        />
+                      </Grid>
+                      <Grid item xs={12} md={3}>
+                        <Box display="flex" alignItems="flex-end" fullHeight>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            color="secondary"
+                            onClick={() => removeEnvVar(index(), envIndex())}
+                          >
+                            Remove Var
+                          </Button>
+                        </Box>
+                      </Grid>
+                    </>
+                  )}
+                </For>
+                <Grid item xs={12}>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    color="secondary"
+                    onClick={() => addEnvVar(index())}
+                  >
+                    Add Env Var
+                  </Button>
+                </Grid>
+              </Grid>
+            </Grid>
+          )}
+        </For>
+        <Show when={formHandler.fieldHasError('executables')}>
+          <Grid item xs={12}>
+            <FormHelperText error>
+              {formHandler.getFieldError('executables')}
+            </FormHelperText>
+          </Grid>
+        </Show>
+        <Grid item xs={12}>
+          <Box display="flex" justifyContent="flex-end">
+            <Box mr={3}>
+              <Button
+                type="button"
+                variant="outline"
+                color="secondary"
+                onClick={addExecutable}
+              >
+                Add Executable
+              </Button>
+            </Box>
+            <Button type="submit" disabled={formHandler.isFormInvalid()}>
+              Save
+            </Button>
+          </Box>
+        </Grid>
       </Grid>
-    </Grid>
+    </form>
   );
 };
@@ -0,0 +1,42 @@
+import { yup, SchemaOf } from 'www-shared';
+import { WineAppExecutable } from 'desktop-shared';
+
+export type EnvVarSchema = { name: string; value: string };
+
+export type ExecutableSchema = Omit<WineAppExecutable, 'env'> & {
+  env: EnvVarSchema[];
+};
+
+export type Schema = { executables: ExecutableSchema[] };
+
+export const schema: SchemaOf<Schema> = yup.object({
+  executables: yup
+    .array(
+      yup.object({
+        path: yup.string().required(),
+        main: yup.boolean().required(),
+        flags: yup.string().optional(),
+        cwd: yup.string().optional(),
+        versionInfo: yup.object().optional(),
+        env: yup
+          .array(
+            yup.object({
+              name: yup
+                .string()
+                .matches(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid variable name')
+                .required(),
+              value: yup.string().default(''),
+            })
+          )
+          .default([]),
+      })
+    )
+    .test(
+      'one-main',
+      'One executable must be marked as main',
+      (executables = []) =>
+        !executables.length ||
+        executables.filter((executable) => executable.main).length === 1
+    )
+    .default([]),
+});
@@ -1,12 +1,71 @@
-import { Component, For } from 'solid-js';
-import { IconButton, Grid, Typography } from 'www-shared';
+import { Component, createSignal, For, Show } from 'solid-js';
+import {
+  IconButton,
+  Grid,
+  List,
+  ListItem,
+  Typography,
+  useDialogContext,
+} from 'www-shared';
 import { FaSolidList, FaSolidFileCode, FaSolidStop } from 'solid-icons/fa';
+import { WineLogViewer } from 'desktop-shared';
+import { useWineToolModel } from '@models';
 
 export const Utilities: Component = () => {
+  const { createDialog } = useDialogContext();
+  const wineToolModel = useWineToolModel();
+  const [killing, setKilling] = createSignal(false);
+
+  const viewLastLog = () => {
+    createDialog({
+      content: () => <WineLogViewer />,
+      hideClose: true,
+      acceptText: 'Close',
+      maxWidth: 'xxl',
+    });
+  };
+
+  const killWineProcesses = async () => {
+    try {
+      setKilling(true);
+      const processes = await wineToolModel.killWineProcesses();
+      createDialog({
+        content: () => (
+          <Show
+            when={processes.length}
+            fallback={<Typography>No wine processes were running.</Typography>}
+          >
+            <Typography>Terminated processes:</Typography>
+            <List>
+              <For each={processes}>
+                {(process) => (
+                  <ListItem>
+                    {process.name} ({process.pid})
+                  </ListItem>
+                )}
+              </For>
+            </List>
+          </Show>
+        ),
+        hideClose: true,
+        acceptText: 'Close',
+      });
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setKilling(false);
+    }
+  };
+
   const items = [
     { name: 'Winetricks', icon: <FaSolidList /> },
-    { name: 'View Last Log', icon: <FaSolidFileCode /> },
-    { name: 'Kill Wine Procesess', icon: <FaSolidStop /> },
+    { name: 'View Last Log', icon: <FaSolidFileCode />, onClick: viewLastLog },
+    {
+      name: 'Kill Wine Processes',
+      icon: <FaSolidStop />,
+      onClick: killWineProcesses,
+      disabled: killing,
+    },
   ];
 
   return (
@@ -21,6 +80,8 @@ export const Utilities: Component = () => {
               style={{ 'min-width': '250px' }}
               icon={item.icon}
               text={item.name}
+              onClick={() => item.onClick?.()}
+              disabled={item.disabled?.()}
             />
           </Grid>
         )}
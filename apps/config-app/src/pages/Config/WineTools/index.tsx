@@ -8,29 +8,13 @@ import {
   FaSolidTrashCan,
   FaSolidFile,
 } from 'solid-icons/fa';
-import { useWineApp, WineTool } from 'desktop-shared';
-import { createStore } from 'solid-js/store';
+import { WineTool } from 'desktop-shared';
+import { useWineToolModel } from '@models';
 
 export const WineTools: Component = () => {
-  const wineApp = useWineApp();
-  const [store, setStore] = createStore({
-    winecfg: { running: false },
-    regedit: { running: false },
-    taskmgr: { running: false },
-    cmd: { running: false },
-    uninstaller: { running: false },
-    winefile: { running: false },
-  });
+  const wineToolModel = useWineToolModel();
 
-  const runWineTool = async (tool: WineTool) => {
-    setStore(tool, 'running', true);
-    const { cmd } = await wineApp[tool]();
-    cmd.on('close', () => {
-      setStore(tool, 'running', false);
-    });
-    cmd.stderr.on('data', (data) => console.error(data));
-    cmd.stdout.on('data', (data) => console.log(data));
-  };
+  const runWineTool = (tool: WineTool) => wineToolModel.run(tool);
 
   const items: Array<{
     name: string;
@@ -84,7 +68,7 @@ export const WineTools: Component = () => {
               icon={item.icon}
               text={item.name}
               onClick={() => item.runWineTool(item.tool as WineTool)}
-              disabled={store[item.tool as WineTool].running}
+              disabled={wineToolModel.selectRunning(item.tool)()}
             />
           </Grid>
         )}
@@ -1,18 +1,227 @@
-import { Component, For } from 'solid-js';
-import { IconButton, Grid, Typography } from 'www-shared';
+import { Component, createSignal, For, Show } from 'solid-js';
+import {
+  Checkbox,
+  IconButton,
+  Grid,
+  Typography,
+  useDialogContext,
+} from 'www-shared';
 import {
   FaSolidWater,
   FaSolidBuilding,
   FaSolidSpinner,
   FaSolidPencil,
 } from 'solid-icons/fa';
+import {
+  migrateWineAppConfig,
+  PipelineViewer,
+  useWineApp,
+  useWineEngineModel,
+  WineEngine,
+  WineEngineSelector,
+  Workflow,
+} from 'desktop-shared';
+import { useAppModel } from '@models';
+import { useAppConfig } from '@utils';
 
 export const WrapperTools: Component = () => {
+  const { createDialog, configDialog } = useDialogContext();
+  const appModel = useAppModel();
+  const appConfig = useAppConfig();
+  const wineApp = useWineApp();
+  const wineEngineModel = useWineEngineModel();
+
+  /**
+   * The engine is stored at the app config once it's extracted
+   * and the prefix is upgraded, without the UI-only fields.
+   */
+  const saveEngine = ({ id, installed, ...engine }: WineEngine) => {
+    return appModel.updateConfig({ ...appModel.selectConfig(), engine });
+  };
+
+  const viewWorkflow = (workflow: Workflow) => {
+    createDialog({
+      content: ({ dialogId }) => (
+        <PipelineViewer id={dialogId} workflow={workflow} />
+      ),
+      hideClose: true,
+      acceptText: 'Close',
+      maxWidth: 'xxl',
+    });
+  };
+
+  const runChangeEngine = (engine: WineEngine) => {
+    viewWorkflow(wineApp.changeEngine(engine, saveEngine).currentWorkflow);
+  };
+
+  const refreshWrapper = () => {
+    createDialog({
+      content: () => (
+        <Typography>
+          The config app, bash scripts and frameworks will be extracted again.
+          The wine prefix is kept as it is.
+        </Typography>
+      ),
+      acceptText: 'Refresh',
+      onAccept: () => viewWorkflow(wineApp.refresh().currentWorkflow),
+      onCancel: () => {},
+    });
+  };
+
+  /**
+   * The folders holding the executables are suggested as user data,
+   * along with the windows users folder.
+   */
+  const getUserDataFolders = () => {
+    const folders = new Set<string>();
+    for (const executable of appModel.selectConfig().executables || []) {
+      const dirs = executable.path
+        .replace(/^\/?drive_c\//, '')
+        .split('/')
+        .slice(0, -1);
+      dirs.length && folders.add(dirs.slice(0, 2).join('/'));
+    }
+    folders.add('users');
+
+    return [...folders];
+  };
+
+  const rebuildWrapper = () => {
+    const folders = getUserDataFolders();
+    const [selectedFolders, setSelectedFolders] = createSignal(folders);
+
+    const toggleFolder = (folder: string, checked: boolean) => {
+      setSelectedFolders((prev) =>
+        checked ? [...prev, folder] : prev.filter((item) => item !== folder)
+      );
+    };
+
+    createDialog({
+      content: () => (
+        <Grid container spacing={2}>
+          <Grid item xs={12}>
+            <Typography>
+              The wrapper will be created again from the app config into a new
+              wine prefix. Select the drive_c folders to keep:
+            </Typography>
+          </Grid>
+          <For each={folders}>
+            {(folder) => (
+              <Grid item xs={12}>
+                <Checkbox
+                  label={folder}
+                  value={folder}
+                  checked={selectedFolders().includes(folder)}
+                  onChange={(event) =>
+                    toggleFolder(folder, event.currentTarget.checked)
+                  }
+                />
+              </Grid>
+            )}
+          </For>
+        </Grid>
+      ),
+      acceptText: 'Rebuild',
+      onAccept: () =>
+        viewWorkflow(
+          wineApp.rebuild(appModel.selectConfig(), selectedFolders())
+            .currentWorkflow
+        ),
+      onCancel: () => {},
+    });
+  };
+
+  /**
+   * The config app is replaced while it's running, so it's
+   * restarted by the user once the update is done.
+   */
+  const updateWrapper = async () => {
+    try {
+      const { current, available, outdated } =
+        await wineApp.getWrapperVersion();
+      const migrateConfig = async () => {
+        const config = await appConfig.read();
+        await appModel.updateConfig(migrateWineAppConfig(config));
+      };
+
+      createDialog({
+        content: () => (
+          <Show
+            when={outdated}
+            fallback={
+              <Typography>
+                The config app is up to date ({current.version} build{' '}
+                {current.build}).
+              </Typography>
+            }
+          >
+            <Typography>
+              Update the config app from {current.version} build {current.build}{' '}
+              to {available?.version} build {available?.build}? Restart it once
+              the update is done.
+            </Typography>
+          </Show>
+        ),
+        acceptText: outdated ? 'Update' : 'Close',
+        onAccept: () =>
+          outdated &&
+          viewWorkflow(wineApp.update(migrateConfig).currentWorkflow),
+        onCancel: outdated ? () => {} : undefined,
+        hideClose: !outdated,
+      });
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const changeEngine = () => {
+    const [engine, setEngine] = createSignal<WineEngine>();
+    const currentVersion = appModel.selectConfig().engine?.version;
+    wineEngineModel.list();
+
+    createDialog({
+      content: ({ dialogId }) => {
+        configDialog(dialogId, { acceptDisabled: true });
+
+        return (
+          <WineEngineSelector
+            value={engine()}
+            onInput={(event) => {
+              setEngine(event.value);
+              configDialog(dialogId, {
+                acceptDisabled:
+                  !engine() || engine()?.version === currentVersion,
+              });
+            }}
+          />
+        );
+      },
+      acceptText: 'Change',
+      onAccept: () => {
+        const selectedEngine = engine();
+        selectedEngine && runChangeEngine(selectedEngine);
+      },
+      onCancel: () => {},
+    });
+  };
+
   const items = [
-    { name: 'Refresh Wrapper', icon: <FaSolidWater /> },
-    { name: 'Rebuild Wrapper', icon: <FaSolidBuilding /> },
-    { name: 'Update Wrapper', icon: <FaSolidSpinner /> },
-    { name: 'Change Engine', icon: <FaSolidPencil /> },
+    {
+      name: 'Refresh Wrapper',
+      icon: <FaSolidWater />,
+      onClick: refreshWrapper,
+    },
+    {
+      name: 'Rebuild Wrapper',
+      icon: <FaSolidBuilding />,
+      onClick: rebuildWrapper,
+    },
+    {
+      name: 'Update Wrapper',
+      icon: <FaSolidSpinner />,
+      onClick: updateWrapper,
+    },
+    { name: 'Change Engine', icon: <FaSolidPencil />, onClick: changeEngine },
   ];
 
   return (
@@ -27,6 +236,7 @@ export const WrapperTools: Component = () => {
               style={{ 'min-width': '250px' }}
               icon={item.icon}
               text={item.name}
+              onClick={() => item.onClick?.()}
             />
           </Grid>
         )}
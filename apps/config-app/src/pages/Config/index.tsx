@@ -1,5 +1,6 @@
 import { Component } from 'solid-js';
 import { Grid } from 'www-shared';
+import { BundleInfo } from './BundleInfo';
 import { Executables } from './Executables';
 import { WineTools } from './WineTools';
 import { Utilities } from './Utilities';
@@ -11,6 +12,9 @@ export const Config: Component = () => {
       <Grid item>
         <Executables />
       </Grid>
+      <Grid item>
+        <BundleInfo />
+      </Grid>
       <Grid item>
         <WineTools />
       </Grid>
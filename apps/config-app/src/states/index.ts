@@ -1 +1,2 @@
 export * from './useAppState';
+export * from './useWineToolState';
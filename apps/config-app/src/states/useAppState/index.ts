@@ -1,4 +1,8 @@
-import { WineApp, useAppState as useBaseAppState } from 'desktop-shared';
+import {
+  InfoPlist,
+  WineApp,
+  useAppState as useBaseAppState,
+} from 'desktop-shared';
 import { AppState } from '@interfaces';
 import { createStore } from 'solid-js/store';
 
@@ -18,6 +22,7 @@ const [store, setStore] = createStore<AppState>({
   },
   initializingConfig: false,
   updatingConfig: false,
+  updatingInfoPlist: false,
 });
 
 export const useAppState = () => {
@@ -37,12 +42,22 @@ export const useAppState = () => {
     setStore('updatingConfig', flag);
   };
 
+  const setInfoPlist = (data: InfoPlist) => {
+    setStore('infoPlist', data);
+  };
+
+  const updatingInfoPlist = (flag: boolean) => {
+    setStore('updatingInfoPlist', flag);
+  };
+
   return {
     ...baseAppState,
     initConfig,
     initializingConfig,
     updateConfig,
     updatingConfig,
+    setInfoPlist,
+    updatingInfoPlist,
     store,
   };
 };
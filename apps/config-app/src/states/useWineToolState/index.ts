@@ -0,0 +1,26 @@
+import { WineTool } from 'desktop-shared';
+import { WineToolState } from '@interfaces';
+import { createStore } from 'solid-js/store';
+
+const [store, setStore] = createStore<WineToolState>({
+  winecfg: { running: false },
+  regedit: { running: false },
+  taskmgr: { running: false },
+  cmd: { running: false },
+  uninstaller: { running: false },
+  winefile: { running: false },
+});
+
+export const useWineToolState = () => {
+  const running = (tool: WineTool, flag: boolean) => {
+    setStore(tool, 'running', flag);
+  };
+
+  const reset = () => {
+    for (const tool of Object.keys(store) as WineTool[]) {
+      setStore(tool, 'running', false);
+    }
+  };
+
+  return { running, reset, store };
+};
@@ -1,16 +1,34 @@
 import { writeTextFile, readTextFile } from '@tauri-apps/api/fs';
 import { resolveResource } from '@tauri-apps/api/path';
-import { WineApp } from 'desktop-shared';
+import {
+  parseWineAppConfig,
+  WINE_APP_SCHEMA_VERSION,
+  WineApp,
+} from 'desktop-shared';
 
 export const useAppConfig = () => {
   const configPath = resolveResource('data/config.json');
 
+  /**
+   * Configs of older schema versions are upgraded and stored back.
+   */
   const read = async () => {
-    return JSON.parse(await readTextFile(await configPath)) as WineApp;
+    const data = await readTextFile(await configPath);
+    const config = parseWineAppConfig(data);
+    if (JSON.parse(data).schemaVersion !== config.schemaVersion)
+      await write(config);
+    return config;
   };
 
   const write = async (data: Partial<WineApp>) => {
-    writeTextFile(await configPath, JSON.stringify(data, null, 2));
+    return writeTextFile(
+      await configPath,
+      JSON.stringify(
+        { ...data, schemaVersion: WINE_APP_SCHEMA_VERSION },
+        null,
+        2
+      )
+    );
   };
 
   return { read, write };
@@ -3,23 +3,23 @@ import { useRoutes } from '@solidjs/router';
 import { routes } from '@routes';
 import {
   useAppModel,
+  useInstalledWineAppModel,
   useWineEngineModel,
   useWinetrickModel,
 } from 'desktop-shared';
 
 export const App: Component = () => {
   const appModel = useAppModel();
+  const installedWineAppModel = useInstalledWineAppModel();
   const wineEngineModel = useWineEngineModel();
   const winetrickModel = useWinetrickModel();
   const initializingEnv = appModel.selectInitializingEnv();
   const [loading, setLoading] = createSignal(true);
 
   const appSetup = async () => {
-    Promise.all([
-      appModel.initEnv(),
-      wineEngineModel.list(),
-      winetrickModel.list(),
-    ]);
+    await appModel.initEnv();
+    installedWineAppModel.copyWrapperArchives().catch(console.error);
+    Promise.all([wineEngineModel.list(), winetrickModel.list()]);
   };
 
   createEffect(() => {
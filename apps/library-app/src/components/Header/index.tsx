@@ -4,6 +4,7 @@ import { Box, Typography } from 'www-shared';
 export interface HeaderProps {
   primaryText?: string;
   logo?: JSXElement;
+  actions?: JSXElement;
 }
 
 export const Header: Component<HeaderProps> = (props) => {
@@ -20,6 +21,9 @@ export const Header: Component<HeaderProps> = (props) => {
         <Box></Box>
         <Typography component="h6">{props.primaryText}</Typography>
       </Box>
+      <Box display="flex" alignItems="center">
+        {props.actions}
+      </Box>
     </Box>
   );
 };
@@ -0,0 +1,111 @@
+import { Component, createEffect, createSignal, on, Show } from 'solid-js';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormHelperText,
+  Grid,
+  TextInput,
+  useFormHandler,
+} from 'www-shared';
+import {
+  FilePathInput,
+  getWineEngineVersion,
+  useWineEngineModel,
+} from 'desktop-shared';
+import { schema, Schema } from './schema';
+
+export interface WineEngineImporterProps {
+  onImport?: (version: string) => void;
+}
+
+export const WineEngineImporter: Component<WineEngineImporterProps> = (
+  props
+) => {
+  const formHandler = useFormHandler<Schema>(schema);
+  const { formData } = formHandler;
+  const wineEngineModel = useWineEngineModel();
+  const importing = wineEngineModel.selectImporting();
+  const [error, setError] = createSignal('');
+
+  /**
+   * The version name is derived from the selected archive or folder.
+   */
+  createEffect(
+    on(
+      () => formData().source,
+      (source) => {
+        source &&
+          formHandler.setFieldValue('version', getWineEngineVersion(source), {
+            validateOn: ['change'],
+          });
+      },
+      { defer: true }
+    )
+  );
+
+  const submit = async (event: Event) => {
+    event.preventDefault();
+    try {
+      setError('');
+      await formHandler.validateForm();
+      await wineEngineModel.importEngine(formData().source, formData().version);
+      props.onImport?.(formData().version);
+    } catch (error) {
+      typeof error === 'string' && setError(error);
+      console.error(error);
+    }
+  };
+
+  return (
+    <form onSubmit={submit}>
+      <Grid container spacing={4}>
+        <Grid item xs={12}>
+          <Checkbox
+            label="Unpacked wswine.bundle folder"
+            name="directory"
+            display="switch"
+            formHandler={formHandler}
+          />
+        </Grid>
+        <Grid item xs={12}>
+          <Show
+            when={formData().directory}
+            fallback={
+              <FilePathInput
+                label="Engine Archive (.tar.7z, .tar.xz, .tar.gz)"
+                name="source"
+                formHandler={formHandler}
+              />
+            }
+          >
+            <FilePathInput
+              label="Engine Folder"
+              name="source"
+              directory
+              formHandler={formHandler}
+            />
+          </Show>
+        </Grid>
+        <Grid item xs={12}>
+          <TextInput label="Version" name="version" formHandler={formHandler} />
+        </Grid>
+        <Show when={error()}>
+          <Grid item xs={12}>
+            <FormHelperText error>{error()}</FormHelperText>
+          </Grid>
+        </Show>
+        <Grid item xs={12}>
+          <Box display="flex" justifyContent="flex-end">
+            <Button
+              type="submit"
+              disabled={formHandler.isFormInvalid() || importing()}
+            >
+              Import
+            </Button>
+          </Box>
+        </Grid>
+      </Grid>
+    </form>
+  );
+};
@@ -0,0 +1,12 @@
+import { yup, SchemaOf } from 'www-shared';
+
+export type Schema = { directory: boolean; source: string; version: string };
+
+export const schema: SchemaOf<Schema> = yup.object({
+  directory: yup.boolean().default(false),
+  source: yup.string().required(),
+  version: yup
+    .string()
+    .matches(/^[^/]+$/, 'Version must not contain slashes')
+    .required(),
+});
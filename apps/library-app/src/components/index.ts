@@ -1,2 +1,3 @@
 export * from './Header';
 export * from './Sidebar';
+export * from './WineEngineImporter';
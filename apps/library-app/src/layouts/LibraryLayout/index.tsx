@@ -1,5 +1,21 @@
-import { Component } from 'solid-js';
+import { Component, JSXElement } from 'solid-js';
+import { Box } from 'www-shared';
 
-export const LibraryLayout: Component = () => {
-  return <div></div>;
+export interface LibraryLayoutProps {
+  children?: JSXElement;
+}
+
+/**
+ * Grid of library items, filling the row with as many columns as fit.
+ */
+export const LibraryLayout: Component<LibraryLayoutProps> = (props) => {
+  return (
+    <Box
+      display="grid"
+      gridTemplateColumns="repeat(auto-fill, minmax(280px, 1fr))"
+      style={{ gap: '1rem' }}
+    >
+      {props.children}
+    </Box>
+  );
 };
@@ -1,21 +1,44 @@
-import { Box, TreeMenu } from 'www-shared';
+import { Box, TreeMenu, Typography } from 'www-shared';
 import { Header, Sidebar } from '@components';
 import { Outlet } from '@solidjs/router';
 import { Component } from 'solid-js';
+import { useWineAppProcessModel } from 'desktop-shared';
 import './index.css';
 
 export const MainLayout: Component = () => {
+  const wineAppProcessModel = useWineAppProcessModel();
+  const runningCount = wineAppProcessModel.selectRunningCount();
+
   return (
     <Box display="grid" gridTemplateRows="auto 1fr" fullHeight>
-      <Header primaryText="Wine Mac Apps" />
+      <Header
+        primaryText="Wine Mac Apps"
+        actions={<Typography>{runningCount()} running apps</Typography>}
+      />
       <Box display="grid" gridTemplateColumns="300px 1fr">
         <Sidebar pr={4}>
           <TreeMenu
             menu={[
+              {
+                text: 'Library',
+                route: '/library',
+              },
               {
                 text: 'Create App',
                 route: '/',
               },
+              {
+                text: 'Engines',
+                route: '/engines',
+              },
+              {
+                text: 'Run History',
+                route: '/history',
+              },
+              {
+                text: 'Wrappers',
+                route: '/wrappers',
+              },
               {
                 text: 'Test flow',
                 route: '/test',
@@ -0,0 +1,158 @@
+import { Component, For, onMount, Show } from 'solid-js';
+import {
+  Box,
+  Button,
+  Card,
+  formatBytes,
+  Grid,
+  LoadingSpinner,
+  Typography,
+  useDialogContext,
+} from 'www-shared';
+import {
+  InstalledWineEngine,
+  useInstalledWineEngineModel,
+} from 'desktop-shared';
+
+export const Engines: Component = () => {
+  const installedWineEngineModel = useInstalledWineEngineModel();
+  const installedWineEngines =
+    installedWineEngineModel.selectInstalledWineEngines();
+  const unusedWineEngines = installedWineEngineModel.selectUnused();
+  const listing = installedWineEngineModel.selectListing();
+  const deleting = installedWineEngineModel.selectDeleting();
+  const { createDialog } = useDialogContext();
+
+  const getTotalSize = (engines: InstalledWineEngine[]) =>
+    engines.reduce((total, engine) => total + engine.size, 0);
+
+  const deleteEngines = async (versions: string[]) => {
+    try {
+      await installedWineEngineModel.deleteEngines(versions);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  /**
+   * Engines still referenced by apps are deleted after a warning.
+   */
+  const deleteEngine = (engine: InstalledWineEngine) => {
+    createDialog({
+      content: () => (
+        <Show
+          when={engine.apps.length}
+          fallback={
+            <Typography>Delete wine engine {engine.version}?</Typography>
+          }
+        >
+          <Typography>
+            Wine engine {engine.version} is used by {engine.apps.join(', ')}.
+            These apps keep their own engine copy, but they can't be rebuilt
+            with it anymore. Delete it anyway?
+          </Typography>
+        </Show>
+      ),
+      acceptText: 'Delete',
+      onAccept: () => deleteEngines([engine.version]),
+      onCancel: () => {},
+    });
+  };
+
+  const deleteUnused = () => {
+    createDialog({
+      content: () => (
+        <Typography>
+          Delete {unusedWineEngines().length} unused wine engines and reclaim{' '}
+          {formatBytes(getTotalSize(unusedWineEngines()))}?
+        </Typography>
+      ),
+      acceptText: 'Delete',
+      onAccept: async () => {
+        try {
+          await installedWineEngineModel.deleteUnused();
+        } catch (error) {
+          console.error(error);
+        }
+      },
+      onCancel: () => {},
+    });
+  };
+
+  onMount(() => {
+    installedWineEngineModel.list();
+  });
+
+  return (
+    <Grid container spacing={4}>
+      <Grid item xs={12}>
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Box>
+            <Typography component="h4">Wine Engines</Typography>
+            <Typography>
+              {installedWineEngines().length} engines using{' '}
+              {formatBytes(getTotalSize(installedWineEngines()))}
+            </Typography>
+          </Box>
+          <Button
+            onClick={deleteUnused}
+            disabled={!unusedWineEngines().length || deleting()}
+          >
+            Remove Unused
+          </Button>
+        </Box>
+      </Grid>
+      <Show when={!listing()} fallback={<LoadingSpinner />}>
+        <Show
+          when={installedWineEngines().length}
+          fallback={
+            <Grid item xs={12}>
+              <Typography>No wine engines installed.</Typography>
+            </Grid>
+          }
+        >
+          <For each={installedWineEngines()}>
+            {(engine) => (
+              <Grid item xs={12}>
+                <Card>
+                  <Box
+                    display="flex"
+                    alignItems="center"
+                    justifyContent="space-between"
+                  >
+                    <Box>
+                      <Typography component="h6">{engine.version}</Typography>
+                      <Typography>
+                        {engine.wineVersion || 'Unknown wine version'} -{' '}
+                        {formatBytes(engine.size)}
+                      </Typography>
+                      <Typography>
+                        {engine.apps.length
+                          ? `Used by ${engine.apps.join(', ')}`
+                          : 'Unused'}
+                      </Typography>
+                      <Show when={engine.unknownApps.length}>
+                        <Typography>
+                          Can't be deleted until the config of{' '}
+                          {engine.unknownApps.join(', ')} is fixed
+                        </Typography>
+                      </Show>
+                    </Box>
+                    <Button
+                      onClick={() => deleteEngine(engine)}
+                      disabled={
+                        deleting() || Boolean(engine.unknownApps.length)
+                      }
+                    >
+                      Delete
+                    </Button>
+                  </Box>
+                </Card>
+              </Grid>
+            )}
+          </For>
+        </Show>
+      </Show>
+    </Grid>
+  );
+};
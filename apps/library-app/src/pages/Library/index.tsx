@@ -0,0 +1,237 @@
+import { Component, createSignal, For, onMount, Show } from 'solid-js';
+import {
+  Box,
+  Button,
+  Card,
+  formatBytes,
+  Grid,
+  LoadingSpinner,
+  TextInput,
+  Typography,
+  useDialogContext,
+} from 'www-shared';
+import {
+  InstalledWineApp,
+  useInstalledWineAppModel,
+  useWineAppProcessModel,
+} from 'desktop-shared';
+import { LibraryLayout } from '@layouts';
+
+export const Library: Component = () => {
+  const { createDialog, configDialog } = useDialogContext();
+  const installedWineAppModel = useInstalledWineAppModel();
+  const installedWineApps = installedWineAppModel.selectInstalledWineApps();
+  const listing = installedWineAppModel.selectListing();
+  const wineAppProcessModel = useWineAppProcessModel();
+
+  const getMainExecutable = (app: InstalledWineApp) => {
+    const executable = app.config?.executables?.find((item) => item.main);
+    return executable?.path.split('/').pop() || 'None';
+  };
+
+  /**
+   * Wrappers may be running without the library, e.g. opened from Finder.
+   */
+  const list = async () => {
+    try {
+      await installedWineAppModel.list();
+      await Promise.all(
+        installedWineApps().map((app) => wineAppProcessModel.refresh(app.name))
+      );
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const toggleRunning = async (app: InstalledWineApp) => {
+    try {
+      wineAppProcessModel.selectRunning(app.name)()
+        ? await wineAppProcessModel.stop(app.name)
+        : await wineAppProcessModel.launch(app.name);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const showError = (error: unknown) => {
+    createDialog({
+      content: () => <Typography>{`${error}`}</Typography>,
+      hideClose: true,
+      acceptText: 'Close',
+    });
+  };
+
+  /**
+   * Names become bundle folder names, so slashes aren't allowed.
+   */
+  const isValidName = (name: string) =>
+    Boolean(name.trim()) && !name.includes('/');
+
+  const askName = (
+    title: string,
+    initialName: string,
+    onAccept: (name: string) => Promise<void>
+  ) => {
+    const [name, setName] = createSignal(initialName);
+
+    createDialog({
+      content: ({ dialogId }) => (
+        <TextInput
+          label={title}
+          value={name()}
+          onInput={(event) => {
+            setName(event.currentTarget.value);
+            configDialog(dialogId, { acceptDisabled: !isValidName(name()) });
+          }}
+        />
+      ),
+      acceptText: 'Save',
+      onAccept: async () => {
+        try {
+          await onAccept(name().trim());
+        } catch (error) {
+          showError(error);
+        }
+      },
+      onCancel: () => {},
+    });
+  };
+
+  const duplicate = (app: InstalledWineApp) => {
+    askName('Duplicate name', `${app.name} copy`, (name) =>
+      installedWineAppModel.duplicate(app.name, name)
+    );
+  };
+
+  const rename = (app: InstalledWineApp) => {
+    askName('New name', app.name, (name) =>
+      installedWineAppModel.rename(app.name, name)
+    );
+  };
+
+  const trash = (app: InstalledWineApp) => {
+    createDialog({
+      content: () => (
+        <Typography>
+          {app.name} will be moved to ~/Wine/trash, from where it can be
+          recovered.
+        </Typography>
+      ),
+      acceptText: 'Delete',
+      onAccept: async () => {
+        try {
+          await installedWineAppModel.trash(app.name);
+        } catch (error) {
+          showError(error);
+        }
+      },
+      onCancel: () => {},
+    });
+  };
+
+  onMount(() => {
+    list();
+  });
+
+  return (
+    <Grid container spacing={4}>
+      <Grid item xs={12}>
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography component="h4">Library</Typography>
+          <Button onClick={list} disabled={listing()}>
+            Refresh
+          </Button>
+        </Box>
+      </Grid>
+      <Grid item xs={12}>
+        <Show when={!listing()} fallback={<LoadingSpinner />}>
+          <Show
+            when={installedWineApps().length}
+            fallback={<Typography>No wine apps created yet.</Typography>}
+          >
+            <LibraryLayout>
+              <For each={installedWineApps()}>
+                {(app) => (
+                  <Card>
+                    <Box
+                      display="flex"
+                      alignItems="center"
+                      justifyContent="space-between"
+                    >
+                      <Typography component="h6">{app.name}</Typography>
+                      <Button
+                        onClick={() => toggleRunning(app)}
+                        disabled={!app.config}
+                      >
+                        {wineAppProcessModel.selectRunning(app.name)()
+                          ? 'Stop'
+                          : 'Launch'}
+                      </Button>
+                    </Box>
+                    <Show
+                      when={app.config}
+                      fallback={
+                        <Typography>
+                          {app.configError || 'No config.json found'}
+                        </Typography>
+                      }
+                    >
+                      <Typography>
+                        Engine: {app.config?.engine?.version}
+                      </Typography>
+                      <Typography>
+                        DXVK: {app.config?.dxvkEnabled ? 'Enabled' : 'Disabled'}
+                      </Typography>
+                      <Typography>
+                        Main executable: {getMainExecutable(app)}
+                      </Typography>
+                    </Show>
+                    <Typography>Size: {formatBytes(app.size || 0)}</Typography>
+                    <Typography>
+                      Last launched:{' '}
+                      {app.lastLaunchedAt
+                        ? new Date(app.lastLaunchedAt).toLocaleString()
+                        : 'Never'}
+                    </Typography>
+                    <Box display="flex" mt={3}>
+                      <Box mr={2}>
+                        <Button
+                          variant="outline"
+                          onClick={() => duplicate(app)}
+                          disabled={wineAppProcessModel.selectRunning(
+                            app.name
+                          )()}
+                        >
+                          Duplicate
+                        </Button>
+                      </Box>
+                      <Box mr={2}>
+                        <Button
+                          variant="outline"
+                          onClick={() => rename(app)}
+                          disabled={wineAppProcessModel.selectRunning(
+                            app.name
+                          )()}
+                        >
+                          Rename
+                        </Button>
+                      </Box>
+                      <Button
+                        variant="outline"
+                        color="secondary"
+                        onClick={() => trash(app)}
+                        disabled={wineAppProcessModel.selectRunning(app.name)()}
+                      >
+                        Delete
+                      </Button>
+                    </Box>
+                  </Card>
+                )}
+              </For>
+            </LibraryLayout>
+          </Show>
+        </Show>
+      </Grid>
+    </Grid>
+  );
+};
@@ -0,0 +1,110 @@
+import { Component, For, onMount, Show } from 'solid-js';
+import {
+  Accordion,
+  Box,
+  Button,
+  Card,
+  Code,
+  formatDuration,
+  Grid,
+  LoadingSpinner,
+  ProcessStatusIcon,
+  Typography,
+  useDialogContext,
+} from 'www-shared';
+import {
+  PipelineViewer,
+  useWorkflowRunModel,
+  WorkflowRun,
+} from 'desktop-shared';
+
+export const RunHistory: Component = () => {
+  const workflowRunModel = useWorkflowRunModel();
+  const workflowRuns = workflowRunModel.selectWorkflowRuns();
+  const listing = workflowRunModel.selectListing();
+  const { createDialog } = useDialogContext();
+
+  const getDuration = (run: WorkflowRun) => {
+    const { startedAt, endedAt } = run.workflow;
+    return startedAt && endedAt ? formatDuration(endedAt - startedAt) : '';
+  };
+
+  /**
+   * Opens the stored run in a read only pipeline viewer.
+   */
+  const openRun = async (run: WorkflowRun) => {
+    const log = await workflowRunModel.readLog(run);
+
+    createDialog({
+      content: ({ dialogId }) => (
+        <Grid container spacing={4}>
+          <Grid item xs={12}>
+            <PipelineViewer id={dialogId} workflow={run.workflow} />
+          </Grid>
+          <Grid item xs={12}>
+            <Accordion text="Full log" disabled={!log.match(/\S/)}>
+              <Code>{log}</Code>
+            </Accordion>
+          </Grid>
+        </Grid>
+      ),
+      hideClose: true,
+      acceptText: 'Close',
+      maxWidth: 'xxl',
+    });
+  };
+
+  onMount(() => {
+    workflowRunModel.list();
+  });
+
+  return (
+    <Grid container spacing={4}>
+      <Grid item xs={12}>
+        <Typography component="h4">Run History</Typography>
+      </Grid>
+      <Show when={!listing()} fallback={<LoadingSpinner />}>
+        <Show
+          when={workflowRuns().length}
+          fallback={
+            <Grid item xs={12}>
+              <Typography>No runs yet.</Typography>
+            </Grid>
+          }
+        >
+          <For each={workflowRuns()}>
+            {(run) => (
+              <Grid item xs={12}>
+                <Card>
+                  <Box
+                    display="flex"
+                    alignItems="center"
+                    justifyContent="space-between"
+                  >
+                    <Box display="flex" alignItems="center">
+                      <Box mr={2}>
+                        <ProcessStatusIcon status={run.workflow.status} />
+                      </Box>
+                      <Box>
+                        <Typography component="h6">
+                          {run.appName} - {run.workflow.name}
+                        </Typography>
+                        <Typography>
+                          {new Date(
+                            run.workflow.startedAt || 0
+                          ).toLocaleString()}{' '}
+                          {getDuration(run)}
+                        </Typography>
+                      </Box>
+                    </Box>
+                    <Button onClick={() => openRun(run)}>View</Button>
+                  </Box>
+                </Card>
+              </Grid>
+            )}
+          </For>
+        </Show>
+      </Show>
+    </Grid>
+  );
+};
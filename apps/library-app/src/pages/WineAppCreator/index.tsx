@@ -14,15 +14,22 @@ import {
   WinetricksSelector,
   WineEngineSelector,
   PipelineViewer,
+  SETUP_INPUT_EXTENSIONS,
+  useInstalledWineAppModel,
   useWineApp,
+  useWineEngineModel,
 } from 'desktop-shared';
+import { WineEngineImporter } from '@components';
 import { schema, Schema } from './schema';
 
 export const WineAppCreator: Component = () => {
   const formHandler = useFormHandler<Schema>(schema);
   const wineApp = useWineApp();
   const { formData } = formHandler;
-  const { createDialog } = useDialogContext();
+  const { createDialog, destroyDialog } = useDialogContext();
+  const wineEngineModel = useWineEngineModel();
+  const wineEngines = wineEngineModel.selectWineEngines();
+  const installedWineAppModel = useInstalledWineAppModel();
 
   const submit = async (event: Event) => {
     event.preventDefault();
@@ -35,11 +42,18 @@ export const WineAppCreator: Component = () => {
   };
 
   const createWineApp = async () => {
-    const { currentWorkflow } = wineApp.create(formData());
+    const { currentWorkflow, retryStep, cancel } = wineApp.create(formData(), {
+      onFinish: () => installedWineAppModel.list().catch(console.error),
+    });
 
     createDialog({
       content: ({ dialogId }) => (
-        <PipelineViewer id={dialogId} workflow={currentWorkflow} />
+        <PipelineViewer
+          id={dialogId}
+          workflow={currentWorkflow}
+          onRetry={retryStep}
+          onCancel={cancel}
+        />
       ),
       hideClose: true,
       acceptText: 'Close',
@@ -47,6 +61,26 @@ export const WineAppCreator: Component = () => {
     });
   };
 
+  /**
+   * Imported engines are selected once they are registered.
+   */
+  const importWineEngine = () => {
+    createDialog({
+      content: ({ dialogId }) => (
+        <WineEngineImporter
+          onImport={(version) => {
+            formHandler.setFieldValue(
+              'engine',
+              wineEngines().find((engine) => engine.version === version)
+            );
+            dialogId && destroyDialog(dialogId);
+          }}
+        />
+      ),
+      acceptText: 'Close',
+    });
+  };
+
   return (
     <Grid container spacing={4}>
       <Grid item xs={12}>
@@ -62,13 +96,27 @@ export const WineAppCreator: Component = () => {
                 formHandler={formHandler}
               />
             </Grid>
-            <Grid item xs={12}>
+            <Grid item xs={12} md={9}>
               <WineEngineSelector name="engine" formHandler={formHandler} />
             </Grid>
+            <Grid item xs={12} md={3}>
+              <Box display="flex" alignItems="flex-end" fullHeight>
+                <Button type="button" onClick={importWineEngine}>
+                  Import Engine
+                </Button>
+              </Box>
+            </Grid>
             <Grid item xs={12}>
               <FilePathInput
                 label="Setup Executable Path"
                 name="setupExecutablePath"
+                filters={[
+                  {
+                    name: 'Installers',
+                    extensions: Object.values(SETUP_INPUT_EXTENSIONS).flat(),
+                  },
+                ]}
+                helperText="Executables, msi packages, batch scripts or zip/7z archives holding the installer."
                 formHandler={formHandler}
               />
             </Grid>
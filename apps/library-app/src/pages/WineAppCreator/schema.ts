@@ -1,5 +1,5 @@
 import { yup, SchemaOf } from 'www-shared';
-import { WineApp } from 'desktop-shared';
+import { getSetupInputType, WineApp } from 'desktop-shared';
 
 export type Schema = WineApp & { useWinetricks: boolean };
 
@@ -14,15 +14,26 @@ const winetricksSchema = (opts: { minVerbs: number }) =>
 
 export const schema: SchemaOf<Schema> = yup.object({
   id: yup.mixed().optional(),
+  schemaVersion: yup.number().optional(),
   name: yup.string().required(),
   engine: yup
     .object({
       id: yup.mixed().optional(),
       version: yup.string().required(),
-      url: yup.string().required(),
+      url: yup.string().default(''),
+      size: yup.number().optional(),
+      checksum: yup.string().optional(),
+      installed: yup.boolean().optional(),
     })
     .required(),
-  setupExecutablePath: yup.string().required(),
+  setupExecutablePath: yup
+    .string()
+    .test(
+      'setup-input-type',
+      'Use an exe, msi, bat, cmd, zip or 7z file',
+      (path = '') => Boolean(getSetupInputType(path))
+    )
+    .required(),
   useWinetricks: yup.boolean().required(),
   dxvkEnabled: yup.boolean().required(),
   winetricks: winetricksSchema({ minVerbs: 0 }).when('useWinetricks', {
@@ -35,6 +46,9 @@ export const schema: SchemaOf<Schema> = yup.object({
         path: yup.string().required(),
         main: yup.boolean().required(),
         flags: yup.string().optional(),
+        env: yup.object().optional(),
+        cwd: yup.string().optional(),
+        versionInfo: yup.object().optional(),
       })
     )
     .default([]),
@@ -0,0 +1,122 @@
+import { Component, For, onMount, Show } from 'solid-js';
+import {
+  Box,
+  Button,
+  Card,
+  Grid,
+  LoadingSpinner,
+  Typography,
+  useDialogContext,
+} from 'www-shared';
+import {
+  ConfigAppVersion,
+  InstalledWineApp,
+  PipelineViewer,
+  useInstalledWineAppModel,
+  useWineApp,
+} from 'desktop-shared';
+
+export const Wrappers: Component = () => {
+  const installedWineAppModel = useInstalledWineAppModel();
+  const installedWineApps = installedWineAppModel.selectInstalledWineApps();
+  const outdatedWineApps = installedWineAppModel.selectOutdated();
+  const listing = installedWineAppModel.selectListing();
+  const wineApp = useWineApp();
+  const { createDialog } = useDialogContext();
+
+  const formatVersion = (version?: ConfigAppVersion) =>
+    version ? `${version.version} build ${version.build}` : 'Unknown';
+
+  /**
+   * Versions are listed again once the update dialog is closed.
+   */
+  const updateWrappers = (apps: InstalledWineApp[]) => {
+    const { currentWorkflow } = wineApp.updateAll(
+      apps.map((app) => ({
+        name: app.name,
+        migrateConfig: () => installedWineAppModel.migrateConfig(app),
+      }))
+    );
+
+    createDialog({
+      content: ({ dialogId }) => (
+        <PipelineViewer id={dialogId} workflow={currentWorkflow} />
+      ),
+      hideClose: true,
+      acceptText: 'Close',
+      maxWidth: 'xxl',
+      onAccept: () => installedWineAppModel.list(),
+    });
+  };
+
+  onMount(() => {
+    installedWineAppModel.list();
+  });
+
+  return (
+    <Grid container spacing={4}>
+      <Grid item xs={12}>
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Box>
+            <Typography component="h4">Wrappers</Typography>
+            <Typography>
+              {outdatedWineApps().length} of {installedWineApps().length}{' '}
+              wrappers can be updated
+            </Typography>
+          </Box>
+          <Button
+            onClick={() => updateWrappers(outdatedWineApps())}
+            disabled={!outdatedWineApps().length}
+          >
+            Update All
+          </Button>
+        </Box>
+      </Grid>
+      <Show when={!listing()} fallback={<LoadingSpinner />}>
+        <Show
+          when={installedWineApps().length}
+          fallback={
+            <Grid item xs={12}>
+              <Typography>No wine apps installed.</Typography>
+            </Grid>
+          }
+        >
+          <For each={installedWineApps()}>
+            {(app) => (
+              <Grid item xs={12}>
+                <Card>
+                  <Box
+                    display="flex"
+                    alignItems="center"
+                    justifyContent="space-between"
+                  >
+                    <Box>
+                      <Typography component="h6">{app.name}</Typography>
+                      <Typography>
+                        Config app {formatVersion(app.wrapperVersion?.current)}
+                        <Show when={app.wrapperVersion?.outdated}>
+                          {` (${formatVersion(
+                            app.wrapperVersion?.available
+                          )} available)`}
+                        </Show>
+                      </Typography>
+                      <Show when={app.configError}>
+                        <Typography>{app.configError}</Typography>
+                      </Show>
+                    </Box>
+                    <Button
+                      onClick={() => updateWrappers([app])}
+                      disabled={!app.wrapperVersion?.outdated}
+                    >
+                      Update
+                    </Button>
+                  </Box>
+                </Card>
+              </Grid>
+            )}
+          </For>
+        </Show>
+      </Show>
+    </Grid>
+  );
+};
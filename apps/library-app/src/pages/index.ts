@@ -1 +1,5 @@
+export * from './Engines';
+export * from './Library';
+export * from './RunHistory';
 export * from './WineAppCreator';
+export * from './Wrappers';
@@ -1,11 +1,17 @@
 import { RouteDefinition } from '@solidjs/router';
-import { WineAppCreator } from '@pages';
+import { Engines, Library, RunHistory, WineAppCreator, Wrappers } from '@pages';
 import { MainLayout } from '@layouts';
 
 export const routes: RouteDefinition[] = [
   {
     path: '/',
     component: MainLayout,
-    children: [{ path: '', component: WineAppCreator }],
+    children: [
+      { path: '', component: WineAppCreator },
+      { path: '/engines', component: Engines },
+      { path: '/library', component: Library },
+      { path: '/history', component: RunHistory },
+      { path: '/wrappers', component: Wrappers },
+    ],
   },
 ];
@@ -0,0 +1,23 @@
+#!/bin/bash
+# Moves the WINE_APP_USER_DATA folders, one per line and relative
+# to drive_c, out of the prefix before it's rebuilt.
+backupUserData() {
+  local backup="$WINE_APP_SHARED_SUPPORT_PATH/.userdata"
+  local folder
+
+  # A backup left by a failed rebuild is never overwritten.
+  if [[ -d "$backup" ]]; then
+    echo "A previous user data backup exists at $backup" >&2
+    return 1
+  fi
+
+  mkdir -p "$backup"
+  while IFS= read -r folder; do
+    [[ -z "$folder" || ! -e "$WINE_APP_DRIVE_C_PATH/$folder" ]] && continue
+    mkdir -p "$(dirname "$backup/$folder")"
+    mv "$WINE_APP_DRIVE_C_PATH/$folder" "$backup/$folder" || return 1
+    echo "Backed up $folder"
+  done <<<"$WINE_APP_USER_DATA"
+}
+
+backupUserData "$@"
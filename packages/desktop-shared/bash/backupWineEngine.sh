@@ -0,0 +1,15 @@
+#!/bin/bash
+# Moves the current app engine aside, so it can be restored
+# if the engine change fails.
+backupWineEngine() {
+  local backup="$WINE_APP_ENGINE_PATH.backup"
+
+  rm -rf "$backup"
+  if [[ -d "$WINE_APP_ENGINE_PATH" ]]; then
+    mv "$WINE_APP_ENGINE_PATH" "$backup" || return 1
+    echo "Wine engine backed up at $backup"
+  fi
+  mkdir -p "$WINE_APP_ENGINE_PATH"
+}
+
+backupWineEngine "$@"
@@ -1,16 +1,12 @@
 # Read variables
 read
-INFO_PLIST="$REPLY"
-read
 CONFIG_JSON="$REPLY"
 read
 EXE_PATH=$REPLY
 
 # Creates info.plist file
 CONTENTS_PATH="$WINE_APP_PATH/Contents"
-cat <<EOM > "$CONTENTS_PATH/Info.plist"
-$INFO_PLIST
-EOM
+printf '%s\n' "$WINE_APP_INFO_PLIST" > "$CONTENTS_PATH/Info.plist"
 
 # Creates config file
 cat <<EOM > "$WINE_APP_PATH/$WINE_CONFIG_APP_NAME.app/Contents/Resources/data/config.json"
@@ -0,0 +1,12 @@
+#!/bin/bash
+# Copies the wrapper archives shipped with the library app into the
+# Wine libs folder, where the config app of every wrapper reads them
+# for refreshing, rebuilding and updating the wrapper.
+copyWrapperArchives() {
+  local target="${WINE_LIBS_PATH:-$HOME/Wine/libs}/compressed"
+
+  mkdir -p "$target" || return 1
+  cp "$COMPRESSED_PATH"/*.tgz "$target"
+}
+
+copyWrapperArchives "$@"
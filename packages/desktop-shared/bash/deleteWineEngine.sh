@@ -0,0 +1,15 @@
+#!/bin/bash
+# Deletes the stored wine engine of WINE_ENGINE_VERSION.
+deleteWineEngine() {
+  local enginesPath=${WINE_ENGINES_PATH:-$HOME/Wine/engines}
+  local engine=$(sh "$(dirname "$0")/findWineEngine.sh")
+
+  if [[ -z "$engine" ]]; then
+    echo "Wine engine $WINE_ENGINE_VERSION not found" >&2
+    return 1
+  fi
+
+  rm -rf "$engine" "$enginesPath/.cache/$WINE_ENGINE_VERSION.version"
+}
+
+deleteWineEngine "$@"
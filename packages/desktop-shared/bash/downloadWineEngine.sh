@@ -0,0 +1,113 @@
+#!/bin/bash
+# Downloads the wine engine archive into the engines folder.
+# Partial downloads are kept as .part files and resumed. The archive
+# SHA-256 must match WINE_ENGINE_CHECKSUM, and its size WINE_ENGINE_SIZE
+# when given, otherwise the download is deleted.
+# Progress is printed as ::progress::<loaded>/<total> byte lines.
+localSize() {
+  if [[ -e "$1" ]]; then
+    wc -c <"$1" | tr -d ' '
+  else
+    echo 0
+  fi
+}
+
+remoteSize() {
+  curl -sIL "$WINE_ENGINE_URL" |
+    grep -i '^content-length:' | tail -n 1 | tr -dc '0-9'
+}
+
+verifyChecksum() {
+  local checksum
+  if command -v shasum >/dev/null; then
+    checksum=$(shasum -a 256 "$1" | cut -d ' ' -f 1)
+  else
+    checksum=$(sha256sum "$1" | cut -d ' ' -f 1)
+  fi
+
+  if [[ "$checksum" != "$(echo "$WINE_ENGINE_CHECKSUM" | tr 'A-F' 'a-f')" ]]; then
+    echo "Checksum mismatch for $(basename "$1"): $checksum" >&2
+    return 1
+  fi
+}
+
+# Downloads the url into the given .part file printing its progress.
+fetchPart() {
+  local part=$1
+  local total=$2
+  shift 2
+
+  curl -fsSL "$@" -o "$part" "$WINE_ENGINE_URL" &
+  local pid=$!
+  trap "kill $pid 2>/dev/null" EXIT
+
+  while kill -0 $pid 2>/dev/null; do
+    echo "::progress::$(localSize "$part")/$total"
+    sleep 1
+  done
+
+  wait $pid
+}
+
+downloadWineEngine() {
+  local enginesPath=${WINE_ENGINES_PATH:-$HOME/Wine/engines}
+  local archive="$enginesPath/$WINE_ENGINE_VERSION.tar.7z"
+  local part="$archive.part"
+
+  # Stored archives were verified on download, or imported by the user.
+  if [[ -n "$(sh "$(dirname "$0")/findWineEngine.sh")" ]]; then
+    echo "Wine engine $WINE_ENGINE_VERSION is already stored"
+    return 0
+  fi
+
+  if [[ -z "$WINE_ENGINE_URL" ]]; then
+    echo "No download url for wine engine $WINE_ENGINE_VERSION" >&2
+    return 1
+  fi
+
+  if [[ -z "$WINE_ENGINE_CHECKSUM" ]]; then
+    echo "No checksum for wine engine $WINE_ENGINE_VERSION" >&2
+    return 1
+  fi
+
+  mkdir -p "$enginesPath"
+  local total=${WINE_ENGINE_SIZE:-$(remoteSize)}
+  total=${total:-0}
+  local code=0
+
+  # Parts completed by a previous attempt are only verified.
+  if [[ $total -eq 0 || $(localSize "$part") -lt $total ]]; then
+    fetchPart "$part" "$total" -C -
+    code=$?
+  fi
+
+  # Servers without byte ranges support can't resume, so it starts over.
+  if [[ $code -eq 33 ]]; then
+    rm -f "$part"
+    fetchPart "$part" "$total"
+    code=$?
+  fi
+
+  if [[ $code -ne 0 ]]; then
+    echo "Wine engine download failed, it will be resumed on retry" >&2
+    return 1
+  fi
+
+  local size=$(localSize "$part")
+  echo "::progress::$size/$total"
+
+  if [[ -n "$WINE_ENGINE_SIZE" && $size -ne $WINE_ENGINE_SIZE ]]; then
+    echo "Size mismatch for $(basename "$part"): $size bytes" >&2
+    rm -f "$part"
+    return 1
+  fi
+
+  if ! verifyChecksum "$part"; then
+    rm -f "$part"
+    return 1
+  fi
+
+  mv "$part" "$archive"
+}
+
+downloadWineEngine "$@"
@@ -0,0 +1,33 @@
+#!/bin/bash
+# Re-extracts the config app and its bash scripts from the wrapper
+# archives into the app, keeping the app config.json.
+extractConfigApp() {
+  local archive="$COMPRESSED_PATH/config-app.tgz"
+  local appPath=$(dirname "$WINE_APP_CONTENTS_PATH")
+  local config
+  local code
+
+  if [[ ! -f "$archive" ]]; then
+    echo "Config app archive $archive not found" >&2
+    return 1
+  fi
+
+  config=$(mktemp) || return 1
+  trap "rm -f '$config'" EXIT
+  cp "$WINE_APP_CONFIG_JSON" "$config" || return 1
+
+  # Files dropped by newer config app versions aren't left behind.
+  rm -rf "$appPath/config-app.app"
+  tar -xf "$archive" -C "$appPath" -v
+  code=$?
+
+  mkdir -p "$(dirname "$WINE_APP_CONFIG_JSON")"
+  if ! cp "$config" "$WINE_APP_CONFIG_JSON"; then
+    trap - EXIT
+    echo "App config could not be restored, it was kept at $config" >&2
+    return 1
+  fi
+  return $code
+}
+
+extractConfigApp "$@"
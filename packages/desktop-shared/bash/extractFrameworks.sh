@@ -0,0 +1,16 @@
+#!/bin/bash
+# Re-extracts the frameworks from the wrapper archives into the app.
+extractFrameworks() {
+  local archive="$COMPRESSED_PATH/Frameworks.tgz"
+
+  if [[ ! -f "$archive" ]]; then
+    echo "Frameworks archive $archive not found" >&2
+    return 1
+  fi
+
+  rm -rf "$WINE_APP_FRAMEWORKS_PATH"
+  mkdir -p "$WINE_APP_FRAMEWORKS_PATH"
+  tar -xf "$archive" -C "$WINE_APP_FRAMEWORKS_PATH" -v
+}
+
+extractFrameworks "$@"
@@ -0,0 +1,19 @@
+#!/bin/bash
+# Extracts WINE_APP_SETUP_ARCHIVE_PATH into a temp folder. Prints the
+# folder followed by the installers found inside, one per line.
+extractSetupArchive() {
+  local tmpPath
+
+  tmpPath=$(mktemp -d "${TMPDIR:-/tmp}/wine-mac-apps-setup.XXXXXX") || return 1
+  # bsdtar reads both zip and 7z archives.
+  if ! tar -xf "$WINE_APP_SETUP_ARCHIVE_PATH" -C "$tmpPath"; then
+    rm -rf "$tmpPath"
+    return 1
+  fi
+
+  echo "$tmpPath"
+  find "$tmpPath" -type f \( -iname "*.exe" -o -iname "*.msi" \
+    -o -iname "*.bat" -o -iname "*.cmd" \)
+}
+
+extractSetupArchive "$@"
@@ -1,3 +1,37 @@
-tar -xf $WINE_ENGINES_PATH/$WINE_ENGINE_VERSION.tar.7z -C $WINE_APP_PATH;
-mv $WINE_APP_PATH/wswine.bundle/* $WINE_APP_ENGINE_PATH;
-rm -r $WINE_APP_PATH/wswine.bundle;
\ No newline at end of file
+#!/bin/bash
+# Extracts the wine engine of WINE_ENGINE_VERSION into the app.
+extractWineEngine() {
+  local engine=$(sh "$(dirname "$0")/findWineEngine.sh")
+  local tmp="$WINE_APP_SHARED_SUPPORT_PATH/.engine"
+
+  if [[ -z "$engine" ]]; then
+    echo "Wine engine $WINE_ENGINE_VERSION not found" >&2
+    return 1
+  fi
+
+  rm -rf "$tmp"
+  mkdir -p "$tmp"
+
+  if [[ -d "$engine" ]]; then
+    cp -R "$engine/." "$tmp" || { rm -rf "$tmp"; return 1; }
+  else
+    tar -xf "$engine" -C "$tmp" || { rm -rf "$tmp"; return 1; }
+  fi
+
+  # The engine root is the folder holding bin/wine64 or bin/wine32on64,
+  # e.g. wswine.bundle inside the archive.
+  local wine=$(find "$tmp" -maxdepth 4 -type f \( -path '*/bin/wine64' -o -path '*/bin/wine32on64' \) | head -n 1)
+  if [[ -z "$wine" ]]; then
+    echo "Wine engine $WINE_ENGINE_VERSION has no bin/wine64 or bin/wine32on64" >&2
+    rm -rf "$tmp"
+    return 1
+  fi
+
+  # Retries replace the engine left by a previous attempt.
+  rm -rf "$WINE_APP_ENGINE_PATH"
+  mkdir -p "$WINE_APP_ENGINE_PATH"
+  mv "$(dirname "$(dirname "$wine")")"/* "$WINE_APP_ENGINE_PATH" || { rm -rf "$tmp"; return 1; }
+  rm -rf "$tmp"
+}
+
+extractWineEngine "$@"
@@ -0,0 +1,19 @@
+#!/bin/bash
+# Prints the path of the stored wine engine of WINE_ENGINE_VERSION.
+# Engines are stored as .tar.7z, .tar.xz or .tar.gz archives, or as
+# unpacked folders named after the version.
+findWineEngine() {
+  local enginesPath=${WINE_ENGINES_PATH:-$HOME/Wine/engines}
+  local engine
+
+  for engine in "$enginesPath/$WINE_ENGINE_VERSION"{.tar.7z,.tar.xz,.tar.gz,}; do
+    if [[ -f "$engine" && "$engine" == *.tar.* ]] || [[ -d "$engine" ]]; then
+      echo "$engine"
+      return 0
+    fi
+  done
+
+  return 1
+}
+
+findWineEngine "$@"
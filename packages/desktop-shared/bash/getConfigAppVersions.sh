@@ -0,0 +1,19 @@
+#!/bin/bash
+# Prints the Info.plist of the wrapper config app, followed by the one
+# of the config app at the wrapper archives when found.
+getConfigAppVersions() {
+  local plist="$(dirname "$WINE_APP_CONFIG_JSON")/../../Info.plist"
+  local archive="$COMPRESSED_PATH/config-app.tgz"
+
+  if [[ ! -f "$plist" ]]; then
+    echo "Config app Info.plist not found" >&2
+    return 1
+  fi
+
+  cat "$plist"
+  if [[ -f "$archive" ]]; then
+    tar -xOzf "$archive" config-app.app/Contents/Info.plist
+  fi
+}
+
+getConfigAppVersions "$@"
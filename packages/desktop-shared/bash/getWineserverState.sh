@@ -0,0 +1,8 @@
+#!/bin/bash
+# Prints "running" or "stopped" depending on the wineserver
+# of the app prefix.
+if [[ -S "$(sh "$(dirname "$0")/wineserverSocket.sh")" ]]; then
+  echo running
+else
+  echo stopped
+fi
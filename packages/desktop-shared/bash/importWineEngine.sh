@@ -0,0 +1,52 @@
+#!/bin/bash
+# Imports the wine engine at WINE_ENGINE_SOURCE into the engines folder
+# as WINE_ENGINE_VERSION. The source can be a .tar.7z, .tar.xz or .tar.gz
+# archive, or an unpacked wswine.bundle folder.
+importWineEngine() {
+  local enginesPath=${WINE_ENGINES_PATH:-$HOME/Wine/engines}
+  local source=$WINE_ENGINE_SOURCE
+  local extension
+
+  if [[ -z "$WINE_ENGINE_VERSION" || "$WINE_ENGINE_VERSION" == */* ]]; then
+    echo "Invalid wine engine version name" >&2
+    return 1
+  fi
+
+  if [[ -n "$(sh "$(dirname "$0")/findWineEngine.sh")" ]]; then
+    echo "Wine engine $WINE_ENGINE_VERSION already exists" >&2
+    return 1
+  fi
+
+  mkdir -p "$enginesPath"
+
+  if [[ -d "$source" ]]; then
+    [[ -d "$source/wswine.bundle" ]] && source="$source/wswine.bundle"
+
+    if [[ ! -e "$source/bin/wine64" && ! -e "$source/bin/wine32on64" ]]; then
+      echo "$source has no bin/wine64 or bin/wine32on64" >&2
+      return 1
+    fi
+
+    cp -R "$source" "$enginesPath/$WINE_ENGINE_VERSION"
+    return $?
+  fi
+
+  case "$source" in
+    *.tar.7z) extension=tar.7z ;;
+    *.tar.xz) extension=tar.xz ;;
+    *.tar.gz | *.tgz) extension=tar.gz ;;
+    *)
+      echo "Unsupported wine engine archive $source" >&2
+      return 1
+      ;;
+  esac
+
+  if ! tar -tf "$source" | grep -qE '(^|/)bin/wine(64|32on64)$'; then
+    echo "$source has no bin/wine64 or bin/wine32on64" >&2
+    return 1
+  fi
+
+  cp "$source" "$enginesPath/$WINE_ENGINE_VERSION.$extension"
+}
+
+importWineEngine "$@"
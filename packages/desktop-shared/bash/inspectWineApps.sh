@@ -0,0 +1,34 @@
+#!/bin/bash
+# Prints a line per wine app with tab separated fields: name, size
+# in bytes and the last launch time in seconds, taken from the newest
+# log written by runProgram.sh.
+
+# Logs are named after their launch time, with the creation time as
+# a fallback, since wine keeps writing into them after the launch.
+getLaunchTime() {
+  local log=$1
+  local stamp=$(basename "$log")
+
+  date -j -f '%Y-%m-%d_%H-%M-%S' "${stamp:0:19}" +%s 2>/dev/null ||
+    stat -f %B "$log"
+}
+
+inspectWineApps() {
+  local appsPath=${WINE_APPS_PATH:-$HOME/Wine/apps}
+  local app
+  local size
+  local log
+  local launchedAt
+
+  for app in "$appsPath"/*.app; do
+    [[ -d "$app" ]] || continue
+
+    size=$(($(du -sk "$app" | cut -f 1) * 1024))
+    log=$(ls -1 "$app/Contents/SharedSupport/Logs"/*.log 2>/dev/null | tail -n 1)
+    launchedAt=$([[ -n "$log" ]] && getLaunchTime "$log")
+    printf '%s\t%s\t%s\n' "$(basename "$app" .app)" "$size" "$launchedAt"
+  done
+  return 0
+}
+
+inspectWineApps "$@"
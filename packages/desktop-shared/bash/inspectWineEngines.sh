@@ -0,0 +1,53 @@
+#!/bin/bash
+# Prints a line per stored wine engine with tab separated fields:
+# version, path, size in bytes and the version reported by wine.
+# Archived engines are extracted once into a temporary folder to ask
+# their wine binary, the result is cached at the .cache folder.
+wineVersion() {
+  local engine=$1
+  local version=$2
+  local cache="$enginesPath/.cache/$version.version"
+  local root=$engine
+  local tmp
+
+  if [[ -f "$cache" ]]; then
+    cat "$cache"
+    return
+  fi
+
+  if [[ -f "$engine" ]]; then
+    tmp=$(mktemp -d)
+    tar -xf "$engine" -C "$tmp" 2>/dev/null
+    root=$tmp
+  fi
+
+  local wine=$(find "$root" -maxdepth 4 -type f \( -path '*/bin/wine64' -o -path '*/bin/wine32on64' \) | head -n 1)
+  local result=$([[ -n "$wine" ]] && "$wine" --version 2>/dev/null | head -n 1)
+  [[ -n "$tmp" ]] && rm -rf "$tmp"
+
+  if [[ -n "$result" ]]; then
+    mkdir -p "$enginesPath/.cache"
+    echo "$result" >"$cache"
+  fi
+  echo "$result"
+}
+
+inspectWineEngines() {
+  enginesPath=${WINE_ENGINES_PATH:-$HOME/Wine/engines}
+  local engine
+  local version
+  local size
+
+  for engine in "$enginesPath"/*; do
+    case "$engine" in
+      *.tar.7z | *.tar.xz | *.tar.gz) version=$(basename "${engine%.tar.*}") ;;
+      *) [[ -d "$engine" ]] && version=$(basename "$engine") || continue ;;
+    esac
+
+    size=$(($(du -sk "$engine" | cut -f 1) * 1024))
+    printf '%s\t%s\t%s\t%s\n' "$version" "$engine" "$size" "$(wineVersion "$engine" "$version")"
+  done
+  return 0
+}
+
+inspectWineEngines "$@"
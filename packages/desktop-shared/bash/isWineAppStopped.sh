@@ -0,0 +1,7 @@
+#!/bin/bash
+# Fails when the wineserver of the app prefix is running, so the
+# app bundle isn't changed while its programs are open.
+if [[ "$(sh "$(dirname "$0")/getWineserverState.sh")" == running ]]; then
+  echo "$WINE_APP_NAME is running, close it first" >&2
+  exit 1
+fi
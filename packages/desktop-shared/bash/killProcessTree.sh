@@ -0,0 +1,11 @@
+#!/bin/bash
+# Kills the given process along with all of its descendants.
+killProcessTree() {
+  local pid=$1
+  for child in $(pgrep -P $pid); do
+    killProcessTree $child
+  done
+  kill -TERM $pid 2>/dev/null
+}
+
+killProcessTree "$1"
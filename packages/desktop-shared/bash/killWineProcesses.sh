@@ -0,0 +1,22 @@
+#!/bin/bash
+# Kills every wine process running on the app prefix and waits
+# until they have exited. The terminated processes are printed
+# as "<pid> <executable>" lines.
+killWineProcesses() {
+  # Workflows without an app, e.g. engine downloads, have no prefix.
+  [[ -d "$WINE_APP_PREFIX_PATH" ]] || return 0
+
+  # winedbg is only asked when the wineserver is up, otherwise
+  # it would boot the prefix just for listing nothing.
+  if [[ -S "$(sh "$(dirname "$0")/wineserverSocket.sh")" ]]; then
+    $WINE_APP_SCRIPTS_PATH/wine.sh winedbg --command "info proc" 2>/dev/null |
+      sed -n "s/^[^0-9a-f]*\([0-9a-f]\{8\}\) .*'\(.*\)'.*/\1 \2/p" |
+      grep -v ' winedbg.exe$'
+  fi
+
+  $WINE_APP_SCRIPTS_PATH/wineEnv.sh wineserver -k 2>/dev/null
+  $WINE_APP_SCRIPTS_PATH/wineEnv.sh wineserver -w 2>/dev/null
+  return 0
+}
+
+killWineProcesses "$@"
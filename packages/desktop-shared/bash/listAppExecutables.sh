@@ -1 +1,5 @@
-find $WINE_APP_DRIVE_C_PATH -type f -path "*Program Files*" -name "*.exe"
\ No newline at end of file
+#!/bin/bash
+# Lists the executables and shortcuts of the app prefix. The windows
+# folder only holds wine builtins, so it's skipped.
+find "$WINE_APP_DRIVE_C_PATH" -path "$WINE_APP_DRIVE_C_PATH/windows" -prune \
+  -o -type f \( -iname "*.exe" -o -iname "*.lnk" \) -print
@@ -0,0 +1,16 @@
+#!/bin/bash
+# Lists the versions of the wine engines stored at the engines folder.
+listWineEngines() {
+  local enginesPath=${WINE_ENGINES_PATH:-$HOME/Wine/engines}
+  local engine
+
+  for engine in "$enginesPath"/*; do
+    case "$engine" in
+      *.tar.7z | *.tar.xz | *.tar.gz) basename "${engine%.tar.*}" ;;
+      *) [[ -d "$engine" ]] && basename "$engine" ;;
+    esac
+  done
+  return 0
+}
+
+listWineEngines "$@"
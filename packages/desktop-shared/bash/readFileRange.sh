@@ -0,0 +1,4 @@
+#!/bin/bash
+# Prints FILE_LENGTH bytes of FILE_PATH starting at FILE_OFFSET,
+# base64 encoded.
+tail -c +$((FILE_OFFSET + 1)) "$FILE_PATH" | head -c "$FILE_LENGTH" | base64
@@ -0,0 +1,10 @@
+#!/bin/bash
+# Prints the wrapper Info.plist.
+plist="$WINE_APP_CONTENTS_PATH/Info.plist"
+
+if [[ ! -f "$plist" ]]; then
+  echo "Info.plist not found" >&2
+  exit 1
+fi
+
+cat "$plist"
@@ -0,0 +1,6 @@
+#!/bin/bash
+# Removes the temp folder of a setup archive extracted by
+# extractSetupArchive.sh.
+if [[ "$WINE_APP_SETUP_TMP_PATH" == */wine-mac-apps-setup.* ]]; then
+  rm -rf "$WINE_APP_SETUP_TMP_PATH"
+fi
@@ -0,0 +1,3 @@
+#!/bin/bash
+# Removes the app engine backup once the engine change succeeded.
+rm -rf "$WINE_APP_ENGINE_PATH.backup"
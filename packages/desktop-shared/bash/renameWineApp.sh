@@ -0,0 +1,16 @@
+#!/bin/bash
+# Renames the app of WINE_APP_NAME as WINE_APP_NEW_NAME.
+renameWineApp() {
+  local target="$(dirname "$WINE_APP_PATH")/$WINE_APP_NEW_NAME.app"
+
+  sh "$(dirname "$0")/isWineAppStopped.sh" || return 1
+  if [[ -e "$target" ]]; then
+    echo "An app named $WINE_APP_NEW_NAME already exists" >&2
+    return 1
+  fi
+
+  mv "$WINE_APP_PATH" "$target" || return 1
+  sh "$(dirname "$0")/setWineAppName.sh" "$target" "$WINE_APP_NEW_NAME"
+}
+
+renameWineApp "$@"
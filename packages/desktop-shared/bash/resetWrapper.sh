@@ -0,0 +1,5 @@
+#!/bin/bash
+# Removes the app engine and prefix, so they are created from scratch.
+rm -rf "$WINE_APP_ENGINE_PATH" "$WINE_APP_PREFIX_PATH"
+mkdir -p "$WINE_APP_ENGINE_PATH" "$WINE_APP_PREFIX_PATH"
+echo "Wine engine and prefix removed"
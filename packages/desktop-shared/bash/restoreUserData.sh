@@ -0,0 +1,28 @@
+#!/bin/bash
+# Restores the folders backed up by backupUserData.sh into the prefix,
+# merging them with the ones created by the new prefix.
+restoreUserData() {
+  local backup="$WINE_APP_SHARED_SUPPORT_PATH/.userdata"
+  local folder
+
+  if [[ ! -d "$backup" ]]; then
+    echo "No user data backup found"
+    return 0
+  fi
+
+  while IFS= read -r folder; do
+    [[ -z "$folder" || ! -e "$backup/$folder" ]] && continue
+    mkdir -p "$WINE_APP_DRIVE_C_PATH/$folder"
+    cp -Rp "$backup/$folder/." "$WINE_APP_DRIVE_C_PATH/$folder" || return 1
+    rm -rf "$backup/$folder"
+    echo "Restored $folder"
+  done <<<"$WINE_APP_USER_DATA"
+
+  find "$backup" -depth -type d -empty -delete
+  if [[ -d "$backup" ]]; then
+    echo "Some user data was left at $backup" >&2
+    return 1
+  fi
+}
+
+restoreUserData "$@"
@@ -0,0 +1,17 @@
+#!/bin/bash
+# Restores the app engine backed up by backupWineEngine.sh.
+# Without a backup the current engine is left untouched.
+restoreWineEngine() {
+  local backup="$WINE_APP_ENGINE_PATH.backup"
+
+  if [[ ! -d "$backup" ]]; then
+    echo "No wine engine backup found"
+    return 0
+  fi
+
+  rm -rf "$WINE_APP_ENGINE_PATH"
+  mv "$backup" "$WINE_APP_ENGINE_PATH"
+  echo "Wine engine restored"
+}
+
+restoreWineEngine "$@"
@@ -3,9 +3,21 @@
 # Config.app/Contents/Resources/data/config.json
 runExecutable() {
   json=$(cat $WINE_APP_CONFIG_JSON)
-  path=$(echo "$json" | jq -r '.executables[] | select(.main) | .path')
-  flags=$(echo "$json" | jq -r '.executables[] | select(.main) | .flags')
-  $WINE_APP_SCRIPTS_PATH/wine.sh "${WINE_APP_PREFIX_PATH}${path}" $flags
+  executable=$(echo "$json" | jq -c 'first(.executables[] | select(.main))')
+  path=$(echo "$executable" | jq -r '.path')
+  flags=$(echo "$executable" | jq -r '.flags // ""')
+  cwd=$(echo "$executable" | jq -r '.cwd // ""')
+
+  # Exports the executable env vars, e.g. WINEDLLOVERRIDES or DXVK_HUD.
+  # A here-string is used as process substitution isn't available
+  # when bash runs as sh.
+  while IFS= read -r var; do
+    [[ -n "$var" ]] && export "$var"
+  done <<<"$(echo "$executable" | jq -r '.env // {} | to_entries[] | "\(.key)=\(.value)"')"
+
+  export WINE_APP_CWD="$cwd"
+
+  $WINE_APP_SCRIPTS_PATH/runProgram.sh "${WINE_APP_PREFIX_PATH}${path}" $flags
 }
 
 runExecutable "$@"
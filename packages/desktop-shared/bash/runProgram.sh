@@ -0,0 +1,18 @@
+#!/bin/bash
+# Runs a program through wine. Its stdout and stderr are written
+# into a timestamped log file located at the app Logs folder, named
+# with the script pid too, so launches in the same second don't collide.
+# WINE_APP_CWD sets the working directory of the program, relative
+# to the prefix folder like the executable paths of config.json.
+runProgram() {
+  if [[ -n "$WINE_APP_CWD" ]]; then
+    cd "${WINE_APP_PREFIX_PATH}${WINE_APP_CWD}" || return 1
+  fi
+
+  mkdir -p "$WINE_APP_LOGS_PATH"
+  log="$WINE_APP_LOGS_PATH/$(date +%Y-%m-%d_%H-%M-%S)_$$.log"
+  $WINE_APP_SCRIPTS_PATH/wine.sh "$@" 2>&1 | tee "$log"
+  return ${PIPESTATUS[0]}
+}
+
+runProgram "$@"
@@ -0,0 +1,34 @@
+#!/bin/bash
+# Runs WINE_APP_SETUP_PATH by its type: msi packages through msiexec,
+# batch scripts through cmd and executables through wine. The temp
+# folder of an extracted setup archive is removed once the setup
+# succeeds, failed setups keep it for retrying.
+runSetup() {
+  local wine="$(dirname "$0")/wine.sh"
+  local extension=$(echo "${WINE_APP_SETUP_PATH##*.}" | tr '[:upper:]' '[:lower:]')
+  local windowsPath
+  local code
+
+  case "$extension" in
+  msi | bat | cmd)
+    windowsPath=$(sh "$wine" winepath -w "$WINE_APP_SETUP_PATH") || return 1
+    if [[ "$extension" == "msi" ]]; then
+      sh "$wine" msiexec /i "$windowsPath"
+    else
+      sh "$wine" cmd /c "$windowsPath"
+    fi
+    ;;
+  *)
+    sh "$wine" "$WINE_APP_SETUP_PATH"
+    ;;
+  esac
+  code=$?
+
+  if [[ $code -eq 0 ]]; then
+    sh "$(dirname "$0")/removeSetupArchive.sh"
+  fi
+
+  return $code
+}
+
+runSetup "$@"
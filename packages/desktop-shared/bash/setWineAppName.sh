@@ -0,0 +1,26 @@
+#!/bin/bash
+# Sets the name of the app at the given path into its config.json
+# and the CFBundleName of its Info.plist.
+setWineAppName() {
+  local appPath=$1
+  local config="$appPath/config-app.app/Contents/Resources/data/config.json"
+  local plist="$appPath/Contents/Info.plist"
+  export WINE_APP_BUNDLE_NAME=$2
+
+  if [[ -f "$config" ]]; then
+    jq --arg name "$WINE_APP_BUNDLE_NAME" '.name = $name' "$config" >"$config.tmp" &&
+      mv "$config.tmp" "$config" || return 1
+  fi
+
+  if [[ -f "$plist" ]]; then
+    perl -0pi -e '
+      my $name = $ENV{WINE_APP_BUNDLE_NAME};
+      $name =~ s/&/&amp;/g; $name =~ s/</&lt;/g; $name =~ s/>/&gt;/g;
+      s|<dict>|<dict><key>CFBundleName</key><string></string>|
+        unless m|<key>CFBundleName</key>|;
+      s|(<key>CFBundleName</key>\s*<string>)[^<]*(</string>)|$1$name$2|;
+    ' "$plist" || return 1
+  fi
+}
+
+setWineAppName "$@"
@@ -0,0 +1,18 @@
+#!/bin/bash
+# Moves the app of WINE_APP_NAME into the Wine trash folder, where
+# it can be recovered from. Trashed apps are suffixed with the date.
+trashWineApp() {
+  local trashPath="$HOME/Wine/trash"
+
+  sh "$(dirname "$0")/isWineAppStopped.sh" || return 1
+  if [[ ! -d "$WINE_APP_PATH" ]]; then
+    echo "$WINE_APP_NAME not found" >&2
+    return 1
+  fi
+
+  mkdir -p "$trashPath"
+  mv "$WINE_APP_PATH" "$trashPath/$WINE_APP_NAME $(date +%Y-%m-%d_%H-%M-%S).app" &&
+    echo "$WINE_APP_NAME moved to $trashPath"
+}
+
+trashWineApp "$@"
@@ -0,0 +1,10 @@
+#!/bin/bash
+# Prints the socket path of the wineserver of the app prefix.
+# The socket only exists while the wineserver is running.
+wineserverSocket() {
+  local dev=$(stat -f %d "$WINE_APP_PREFIX_PATH")
+  local inode=$(stat -f %i "$WINE_APP_PREFIX_PATH")
+  printf '/tmp/.wine-%s/server-%x-%x/socket' "$(id -u)" "$dev" "$inode"
+}
+
+wineserverSocket "$@"
@@ -0,0 +1,11 @@
+#!/bin/bash
+# Writes WINE_APP_INFO_PLIST as the wrapper Info.plist. The old one is
+# kept until the new one is written.
+plist="$WINE_APP_CONTENTS_PATH/Info.plist"
+
+if [[ -z "$WINE_APP_INFO_PLIST" ]]; then
+  echo "WINE_APP_INFO_PLIST is empty" >&2
+  exit 1
+fi
+
+printf '%s\n' "$WINE_APP_INFO_PLIST" >"$plist.tmp" && mv "$plist.tmp" "$plist"
@@ -0,0 +1,17 @@
+import { Config } from '@jest/types';
+import { pathsToModuleNameMapper } from 'ts-jest';
+import { compilerOptions } from './tsconfig.json';
+
+const config: Config.InitialOptions = {
+  verbose: true,
+  roots: ['<rootDir>/tests'],
+  moduleNameMapper: pathsToModuleNameMapper(compilerOptions.paths, {
+    prefix: '<rootDir>/',
+  }),
+  transform: {
+    '\\.[jt]sx?$': 'babel-jest',
+  },
+  testEnvironment: 'node',
+};
+
+export default config;
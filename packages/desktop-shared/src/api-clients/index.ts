@@ -1,2 +1,9 @@
+export * from './useExecutableApiClient';
+export * from './useInfoPlistApiClient';
+export * from './useInstalledWineEngineApiClient';
+export * from './useWineAppApiClient';
+export * from './useWineAppProcessApiClient';
 export * from './useWineEngineApiClient';
+export * from './useWineLogApiClient';
 export * from './useWinetrickApiClient';
+export * from './useWorkflowRunApiClient';
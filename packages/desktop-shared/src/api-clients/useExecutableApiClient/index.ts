@@ -0,0 +1,118 @@
+import { ExecutableCandidate, Shortcut } from '@interfaces';
+import {
+  classifyExecutable,
+  mapShortcutExecutable,
+  parseLnk,
+  parsePe,
+  rankExecutables,
+  useShellRunner,
+} from '@utils';
+
+/**
+ * Executables read at the same time while listing the prefix.
+ */
+const READ_BATCH_SIZE = 8;
+
+export const useExecutableApiClient = () => {
+  const { executeBashScript } = useShellRunner();
+
+  /**
+   * Files are read by ranges through bash, as executables can be
+   * large and out of the app fs scope.
+   */
+  const readRange = async (path: string, offset: number, length: number) => {
+    const { code, stdout, stderr } = await executeBashScript('readFileRange', {
+      env: { FILE_PATH: path, FILE_OFFSET: offset, FILE_LENGTH: length },
+    });
+    if (code !== 0) throw stderr || `${path} could not be read`;
+
+    const data = atob(stdout.replace(/\s/g, ''));
+    return Uint8Array.from(data, (char) => char.charCodeAt(0));
+  };
+
+  const readPeInfo = (path: string) => {
+    return parsePe((offset, length) => readRange(path, offset, length));
+  };
+
+  /**
+   * Shortcuts are a few KB, so they're read at once.
+   */
+  const readLnk = async (path: string) => {
+    return parseLnk(await readRange(path, 0, 64 * 1024));
+  };
+
+  const listFiles = async (appName?: string) => {
+    const shellRunner = useShellRunner({ env: { WINE_APP_NAME: appName } });
+    const { stdout } = await shellRunner.executeBashScript(
+      'listAppExecutables'
+    );
+    return stdout.split('\n').filter((item) => item);
+  };
+
+  const toRelativePath = (file: string) =>
+    file.split('SharedSupport/prefix').pop() || '';
+
+  /**
+   * Shortcuts which can't be parsed are skipped.
+   */
+  const readShortcuts = async (files: string[]) => {
+    const shortcuts: Shortcut[] = [];
+    for (const file of files.filter((item) => /\.lnk$/i.test(item))) {
+      try {
+        const path = toRelativePath(file);
+        shortcuts.push({
+          path,
+          name: (path.split('/').pop() || '').replace(/\.lnk$/i, ''),
+          link: await readLnk(file),
+        });
+      } catch (error) {
+        console.error(error);
+      }
+    }
+    return shortcuts;
+  };
+
+  const listShortcuts = async (appName?: string) => {
+    return readShortcuts(await listFiles(appName));
+  };
+
+  /**
+   * Lists the prefix executables ranked as main executable candidates.
+   * Shortcuts are matched with the executables they point to.
+   */
+  const list = async (appName?: string) => {
+    const files = await listFiles(appName);
+
+    const shortcuts: Record<string, string[]> = {};
+    for (const shortcut of await readShortcuts(files)) {
+      const executable = mapShortcutExecutable(shortcut);
+      if (!executable) continue;
+      const key = executable.path.toLowerCase();
+      shortcuts[key] = [...(shortcuts[key] || []), shortcut.name];
+    }
+
+    const executables = files.filter((item) => /\.exe$/i.test(item));
+    const candidates: ExecutableCandidate[] = [];
+    for (let i = 0; i < executables.length; i += READ_BATCH_SIZE) {
+      const batch = executables.slice(i, i + READ_BATCH_SIZE);
+      for (const file of batch) {
+        const path = toRelativePath(file);
+        candidates.push({
+          path,
+          fileName: path.split('/').pop() || '',
+          category: classifyExecutable(path),
+          score: 0,
+          shortcuts: shortcuts[path.toLowerCase()] || [],
+        });
+      }
+      const peInfos = await Promise.all(
+        batch.map((file) => readPeInfo(file).catch(() => undefined))
+      );
+      peInfos.forEach((peInfo, j) => (candidates[i + j].peInfo = peInfo));
+    }
+
+    return rankExecutables(candidates, appName);
+  };
+
+  return { readPeInfo, readLnk, list, listShortcuts };
+};
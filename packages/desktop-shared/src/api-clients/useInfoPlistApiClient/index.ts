@@ -0,0 +1,24 @@
+import { InfoPlist } from '@interfaces';
+import { buildInfoPlist, parseInfoPlist, useShellRunner } from '@utils';
+
+export const useInfoPlistApiClient = () => {
+  const { executeBashScript } = useShellRunner();
+
+  /**
+   * The Info.plist of the wrapper running the config app.
+   */
+  const read = async () => {
+    const { code, stdout, stderr } = await executeBashScript('readInfoPlist');
+    if (code !== 0) throw stderr || 'Info.plist could not be read';
+    return parseInfoPlist(stdout);
+  };
+
+  const write = async (infoPlist: InfoPlist) => {
+    const { code, stderr } = await executeBashScript('writeInfoPlist', {
+      env: { WINE_APP_INFO_PLIST: buildInfoPlist(infoPlist) },
+    });
+    if (code !== 0) throw stderr || 'Info.plist could not be written';
+  };
+
+  return { read, write };
+};
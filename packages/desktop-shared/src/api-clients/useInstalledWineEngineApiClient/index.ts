@@ -0,0 +1,56 @@
+import { InstalledWineEngine } from '@interfaces';
+import { useWineAppApiClient } from '@api-clients';
+import { useShellRunner } from '@utils';
+
+export const useInstalledWineEngineApiClient = () => {
+  const { executeBashScript } = useShellRunner();
+  const wineAppApiClient = useWineAppApiClient();
+
+  const mapResponse = (data: string = ''): InstalledWineEngine[] => {
+    const mappedData: InstalledWineEngine[] = [];
+    for (let row of data.split('\n')) {
+      if (!row) continue;
+      const [version, path, size, wineVersion] = row.split('\t');
+      mappedData.push({
+        version,
+        path,
+        size: Number(size) || 0,
+        wineVersion: wineVersion || '',
+        apps: [],
+        unknownApps: [],
+      });
+    }
+    return mappedData;
+  };
+
+  /**
+   * Engines are referenced by the apps through their config.json.
+   * Apps with a corrupt config may reference any of them.
+   */
+  const list = async () => {
+    const [{ stdout }, wineApps] = await Promise.all([
+      executeBashScript('inspectWineEngines'),
+      wineAppApiClient.list(),
+    ]);
+    const unknownApps = wineApps
+      .filter((app) => app.configError)
+      .map((app) => app.name);
+
+    return mapResponse(stdout).map((engine) => ({
+      ...engine,
+      apps: wineApps
+        .filter((app) => app.config?.engine?.version === engine.version)
+        .map((app) => app.name),
+      unknownApps,
+    }));
+  };
+
+  const deleteEngine = async (version: string) => {
+    const { code, stderr } = await executeBashScript('deleteWineEngine', {
+      env: { WINE_ENGINE_VERSION: version },
+    });
+    if (code !== 0) throw stderr || `Wine engine ${version} delete failed`;
+  };
+
+  return { list, deleteEngine };
+};
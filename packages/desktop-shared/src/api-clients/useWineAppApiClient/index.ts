@@ -0,0 +1,157 @@
+import { BashScript, InstalledWineApp, WineApp } from '@interfaces';
+import { useAppModel } from '@models';
+import { WINE_APP_SCHEMA_VERSION } from '@constants';
+import { mapWrapperVersion, parseWineAppConfig, useShellRunner } from '@utils';
+import {
+  exists,
+  readDir,
+  readTextFile,
+  writeTextFile,
+} from '@tauri-apps/api/fs';
+
+export const useWineAppApiClient = () => {
+  const appModel = useAppModel();
+  const appEnv = appModel.selectEnv();
+  const { executeBashScript } = useShellRunner();
+
+  /**
+   * The app config is written by bundleApp.sh inside the embedded config app.
+   */
+  const getConfigPath = (appPath: string) =>
+    `${appPath}/config-app.app/Contents/Resources/data/config.json`;
+
+  /**
+   * Old configs are upgraded to the current schema on read.
+   */
+  const readConfig = async (appPath: string) => {
+    const configPath = getConfigPath(appPath);
+    if (!(await exists(configPath))) return undefined;
+
+    return parseWineAppConfig(await readTextFile(configPath));
+  };
+
+  const writeConfig = (appPath: string, config: WineApp) => {
+    return writeTextFile(
+      getConfigPath(appPath),
+      JSON.stringify(
+        { ...config, schemaVersion: WINE_APP_SCHEMA_VERSION },
+        null,
+        2
+      )
+    );
+  };
+
+  /**
+   * Compares the app config app with the one at the library archives.
+   */
+  const getWrapperVersion = async (appName: string) => {
+    const { code, stdout } = await executeBashScript('getConfigAppVersions', {
+      env: { WINE_APP_NAME: appName },
+    });
+    if (code !== 0) return undefined;
+
+    try {
+      return mapWrapperVersion(stdout);
+    } catch (error) {
+      console.error(`Invalid config app Info.plist of ${appName}`, error);
+      return undefined;
+    }
+  };
+
+  /**
+   * Disk sizes and launch times by app name.
+   */
+  const inspect = async () => {
+    const { stdout } = await executeBashScript('inspectWineApps');
+    const stats: Record<
+      string,
+      Pick<InstalledWineApp, 'size' | 'lastLaunchedAt'>
+    > = {};
+    for (let row of stdout.split('\n')) {
+      if (!row) continue;
+      const [name, size, launchedAt] = row.split('\t');
+      stats[name] = {
+        size: Number(size) || 0,
+        lastLaunchedAt: launchedAt ? Number(launchedAt) * 1000 : undefined,
+      };
+    }
+    return stats;
+  };
+
+  const list = async () => {
+    const wineApps: InstalledWineApp[] = [];
+    const appsPath = appEnv().WINE_APPS_PATH;
+    if (!(await exists(appsPath))) return wineApps;
+    const stats = await inspect();
+
+    for (let app of await readDir(appsPath)) {
+      if (!app.name?.endsWith('.app')) continue;
+      const name = app.name.replace(/\.app$/, '');
+      const wineApp: InstalledWineApp = {
+        name,
+        path: app.path,
+        ...stats[name],
+      };
+
+      try {
+        wineApp.config = await readConfig(app.path);
+      } catch (error) {
+        wineApp.configError = `${error}`;
+      }
+
+      wineApp.wrapperVersion = await getWrapperVersion(name);
+      wineApps.push(wineApp);
+    }
+
+    return wineApps;
+  };
+
+  /**
+   * Runs an app lifecycle script, failing with its error output.
+   */
+  const executeAppScript = async (
+    script: BashScript,
+    appName: string,
+    newName: string = ''
+  ) => {
+    const { code, stdout, stderr } = await executeBashScript(script, {
+      env: { WINE_APP_NAME: appName, WINE_APP_NEW_NAME: newName },
+    });
+    if (code !== 0) throw stderr || `${appName} ${script} failed`;
+    return stdout;
+  };
+
+  const duplicate = (appName: string, newName: string) => {
+    return executeAppScript('duplicateWineApp', appName, newName);
+  };
+
+  const rename = (appName: string, newName: string) => {
+    return executeAppScript('renameWineApp', appName, newName);
+  };
+
+  /**
+   * Apps are moved to the Wine trash folder, so they can be recovered.
+   */
+  const trash = (appName: string) => {
+    return executeAppScript('trashWineApp', appName);
+  };
+
+  /**
+   * Wrappers read the archives of the library app from the Wine libs folder.
+   */
+  const copyArchives = async () => {
+    const { code, stderr } = await executeBashScript('copyWrapperArchives');
+    if (code !== 0) throw stderr || 'Wrapper archives could not be copied';
+  };
+
+  return {
+    list,
+    readConfig,
+    writeConfig,
+    getWrapperVersion,
+    duplicate,
+    rename,
+    trash,
+    copyArchives,
+  };
+};
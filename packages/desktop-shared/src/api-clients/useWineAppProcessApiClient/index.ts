@@ -0,0 +1,37 @@
+import { useShellRunner } from '@utils';
+import { Child } from '@tauri-apps/api/shell';
+
+export const useWineAppProcessApiClient = () => {
+  /**
+   * Every app gets its own runner, so the env of one app
+   * doesn't leak into the commands of another.
+   */
+  const getShellRunner = (appName: string) =>
+    useShellRunner({ env: { WINE_APP_NAME: appName } });
+
+  /**
+   * Spawns the main executable of the app, like the app launcher does.
+   */
+  const launch = (appName: string) => {
+    return getShellRunner(appName).spawnBashScript('runExecutable');
+  };
+
+  /**
+   * Kills the launcher process tree when it's known, and then
+   * the wine processes of the app prefix, which aren't part of it.
+   */
+  const stop = async (appName: string, child?: Child) => {
+    const shellRunner = getShellRunner(appName);
+    if (child) await shellRunner.killProcess(child);
+    await shellRunner.executeBashScript('killWineProcesses');
+  };
+
+  const isWineserverRunning = async (appName: string) => {
+    const { stdout } = await getShellRunner(appName).executeBashScript(
+      'getWineserverState'
+    );
+    return stdout.trim() === 'running';
+  };
+
+  return { launch, stop, isWineserverRunning };
+};
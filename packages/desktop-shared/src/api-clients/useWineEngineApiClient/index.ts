@@ -1,18 +1,73 @@
+import { WineEngine } from '@interfaces';
+import { parseWineEngineManifest, useShellRunner } from '@utils';
+import { readTextFile } from '@tauri-apps/api/fs';
+import { fetch, ResponseType } from '@tauri-apps/api/http';
+import { resolveResource } from '@tauri-apps/api/path';
+
 export const useWineEngineApiClient = () => {
+  const { executeBashScript } = useShellRunner();
+
+  /**
+   * The manifest is read from VITE_WINE_ENGINES_MANIFEST_URL, which can be
+   * an http url or a local file path, or from the bundled data/wineEngines.json.
+   */
+  const readManifest = async () => {
+    const location: string =
+      import.meta.env.VITE_WINE_ENGINES_MANIFEST_URL ||
+      (await resolveResource('data/wineEngines.json'));
+
+    if (location.match(/^https?:\/\//)) {
+      const response = await fetch<string>(location, {
+        method: 'GET',
+        responseType: ResponseType.Text,
+      });
+      if (!response.ok)
+        throw `Wine engines manifest request failed with status ${response.status}`;
+      return parseWineEngineManifest(response.data);
+    }
+
+    return parseWineEngineManifest(
+      await readTextFile(location.replace(/^file:\/\//, ''))
+    );
+  };
+
+  const listInstalled = async () => {
+    const { stdout } = await executeBashScript('listWineEngines');
+    return stdout.split('\n').filter((version) => version);
+  };
+
+  /**
+   * Engines installed locally but missing at the manifest are listed too.
+   */
   const list = async () => {
-    return [
-      {
-        id: 1,
-        version: 'WS11WineCX64Bit22.0.1',
-        url: 'https://mega.nz/file/VF4mSCpQ#UDC10env2AKKAEqqfv2Gbz8sk26mkwn1VNcAOL_nIi4',
-      },
-      {
-        id: 2,
-        version: 'WS11WineCX64Bit22.1.1-rc2',
-        url: 'https://mega.nz/file/VF4mSCpQ#UDC10env2AKKAEqqfv2Gbz8sk26mkwn1VNcAOL_nIi4',
-      },
-    ];
+    const [manifest, installed] = await Promise.all([
+      readManifest(),
+      listInstalled(),
+    ]);
+
+    const wineEngines: WineEngine[] = manifest.engines.map((engine) => ({
+      url: '',
+      ...engine,
+      installed: installed.includes(engine.version),
+    }));
+
+    for (const version of installed) {
+      !wineEngines.some((engine) => engine.version === version) &&
+        wineEngines.push({ version, url: '', installed: true });
+    }
+
+    return wineEngines.map((engine, index) => ({ id: index + 1, ...engine }));
+  };
+
+  /**
+   * Copies a local engine archive or folder into the engines folder.
+   */
+  const importEngine = async (source: string, version: string) => {
+    const { code, stderr } = await executeBashScript('importWineEngine', {
+      env: { WINE_ENGINE_SOURCE: source, WINE_ENGINE_VERSION: version },
+    });
+    if (code !== 0) throw stderr || `Wine engine ${version} import failed`;
   };
 
-  return { list };
+  return { list, importEngine };
 };
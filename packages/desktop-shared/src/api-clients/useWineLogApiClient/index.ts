@@ -0,0 +1,37 @@
+import { WineLog } from '@interfaces';
+import { useShellRunner } from '@utils';
+
+export const useWineLogApiClient = () => {
+  const { executeScript, spawnScript } = useShellRunner();
+
+  const mapResponse = (data: string = ''): WineLog[] => {
+    return data
+      .split('\n')
+      .filter((path) => path)
+      .map((path) => ({ name: path.split('/').pop() || '', path }));
+  };
+
+  /**
+   * Logs are listed from the newest to the oldest.
+   */
+  const list = async () => {
+    const { stdout } = await executeScript(
+      'ls -1t "$WINE_APP_LOGS_PATH"/*.log 2>/dev/null'
+    );
+    return mapResponse(stdout);
+  };
+
+  const read = async (wineLog: WineLog) => {
+    const { stdout } = await executeScript(`cat "${wineLog.path}"`);
+    return stdout;
+  };
+
+  /**
+   * Spawns a tail process which streams the lines appended to the log.
+   */
+  const follow = (wineLog: WineLog) => {
+    return spawnScript(`exec tail -n 0 -f "${wineLog.path}"`);
+  };
+
+  return { list, read, follow };
+};
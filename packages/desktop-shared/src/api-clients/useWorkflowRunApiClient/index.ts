@@ -0,0 +1,69 @@
+import { WorkflowRun } from '@interfaces';
+import { useAppModel } from '@models';
+import {
+  createDir,
+  exists,
+  readDir,
+  readTextFile,
+  writeTextFile,
+} from '@tauri-apps/api/fs';
+
+export const useWorkflowRunApiClient = () => {
+  const appModel = useAppModel();
+  const appEnv = appModel.selectEnv();
+
+  /**
+   * Runs are stored under the Logs folder created by scaffoldApp.sh.
+   */
+  const getAppPath = (appName: string) =>
+    `${appEnv().WINE_APPS_PATH}/${appName}.app`;
+
+  const getRunsPath = (appName: string) =>
+    `${getAppPath(appName)}/Contents/SharedSupport/Logs/runs`;
+
+  const list = async () => {
+    const runs: WorkflowRun[] = [];
+    const appsPath = appEnv().WINE_APPS_PATH;
+    if (!(await exists(appsPath))) return runs;
+
+    for (let app of await readDir(appsPath)) {
+      const appName = app.name?.replace(/\.app$/, '');
+      if (!appName) continue;
+
+      const runsPath = getRunsPath(appName);
+      if (!(await exists(runsPath))) continue;
+
+      for (let file of await readDir(runsPath)) {
+        if (!file.name?.endsWith('.json')) continue;
+        // Runs cut off while being written are skipped.
+        try {
+          runs.push(JSON.parse(await readTextFile(file.path)) as WorkflowRun);
+        } catch (error) {
+          console.error(`Invalid run file ${file.path}`, error);
+        }
+      }
+    }
+
+    return runs.sort(
+      (a, b) => (b.workflow.startedAt || 0) - (a.workflow.startedAt || 0)
+    );
+  };
+
+  const create = async (run: WorkflowRun, log: string) => {
+    if (!(await exists(getAppPath(run.appName))))
+      throw `Wine app ${run.appName} not found`;
+
+    const runsPath = getRunsPath(run.appName);
+    await createDir(runsPath, { recursive: true });
+    await writeTextFile(`${runsPath}/${run.id}.json`, JSON.stringify(run));
+    await writeTextFile(`${runsPath}/${run.id}.log`, log);
+    return run;
+  };
+
+  const readLog = async (run: WorkflowRun) => {
+    const logPath = `${getRunsPath(run.appName)}/${run.id}.log`;
+    return (await exists(logPath)) ? readTextFile(logPath) : '';
+  };
+
+  return { list, create, readLog };
+};
@@ -1,12 +1,14 @@
 import { Component, mergeProps, splitProps } from 'solid-js';
 import { Box, TextInput, TextInputProps, Button } from 'www-shared';
 import { createStore } from 'solid-js/store';
-import { open } from '@tauri-apps/api/dialog';
+import { DialogFilter, open } from '@tauri-apps/api/dialog';
 import './index.css';
 
 export interface FileInputProps extends Omit<TextInputProps, 'readonly'> {
   buttonText?: string;
   buttonDirection?: 'right' | 'left';
+  directory?: boolean;
+  filters?: DialogFilter[];
 }
 
 export const FilePathInput: Component<FileInputProps> = (props) => {
@@ -16,6 +18,8 @@ export const FilePathInput: Component<FileInputProps> = (props) => {
     'errorMessage',
     'buttonText',
     'buttonDirection',
+    'directory',
+    'filters',
   ]);
 
   const [store, setStore] = createStore({
@@ -23,7 +27,10 @@ export const FilePathInput: Component<FileInputProps> = (props) => {
   });
 
   const onClick = async () => {
-    const filePath = (await open()) as string;
+    const filePath = (await open({
+      directory: local.directory,
+      filters: local.filters,
+    })) as string;
     setStore('value', filePath);
     rest?.formHandler?.setFieldValue?.(rest.name, filePath, {
       validateOn: ['change'],
@@ -1,25 +1,59 @@
 import { Workflow } from '@interfaces';
+import { getJobLevels } from '@utils';
 import {
   Id,
   Accordion,
   capitalize,
   Box,
+  Button,
   Card,
   Code,
+  ColSize,
+  formatBytes,
+  formatDuration,
+  FormHelperText,
   Grid,
   ProcessStatusIcon,
   Typography,
   useDialogContext,
 } from 'www-shared';
-import { Component, createEffect, For } from 'solid-js';
+import {
+  Component,
+  createEffect,
+  createMemo,
+  For,
+  onCleanup,
+  Show,
+} from 'solid-js';
 
 export interface PipelineViewerProps {
   id?: Id;
   workflow: Workflow;
+  onRetry?: (jobIndex: number, stepIndex: number) => void;
+  onCancel?: () => void;
 }
 
 export const PipelineViewer: Component<PipelineViewerProps> = (props) => {
   const { configDialog } = useDialogContext();
+  const running = () => props.workflow.status === 'pending';
+
+  /**
+   * Jobs with bad needs can't be leveled, so they're listed
+   * one per row along with the workflow error.
+   */
+  const levels = createMemo(() => {
+    try {
+      return getJobLevels(props.workflow.jobs);
+    } catch (error) {
+      return props.workflow.jobs.map((_, i) => [i]);
+    }
+  });
+
+  /**
+   * Jobs at the same dependency level are rendered side by side.
+   */
+  const getColSize = (level: number[]) =>
+    Math.max(Math.floor(12 / level.length), 4) as ColSize;
 
   createEffect(() => {
     if (
@@ -33,52 +67,179 @@ export const PipelineViewer: Component<PipelineViewerProps> = (props) => {
     }
   });
 
+  /**
+   * Running processes are stopped if the viewer is closed.
+   */
+  onCleanup(() => {
+    running() && props.onCancel?.();
+  });
+
   return (
     <Grid class="pipeline-viewer" container spacing={4}>
       <Grid item xs={12}>
-        <Typography component="h4">
-          {capitalize(props.workflow.name)}
-        </Typography>
+        <Box display="flex" alignItems="center" justifyContent="space-between">
+          <Typography component="h4">
+            {capitalize(props.workflow.name)}
+          </Typography>
+          <Show when={props.onCancel && running()}>
+            <Button onClick={() => props.onCancel?.()}>Cancel</Button>
+          </Show>
+        </Box>
       </Grid>
+      <Show when={props.workflow.error}>
+        <Grid item xs={12}>
+          <FormHelperText error>{props.workflow.error}</FormHelperText>
+        </Grid>
+      </Show>
       <Grid item xs={12}>
-        <For each={props.workflow.jobs}>
-          {(job) => (
-            <Card>
-              <Grid container spacing={4}>
-                <Grid item xs={12}>
-                  <Typography component="h6">{capitalize(job.name)}</Typography>
-                </Grid>
-                <Grid item xs={12}>
-                  <For each={job.steps}>
-                    {(step, index) => (
-                      <Accordion
-                        disabled={!step?.output?.match(/\S/)}
-                        expandable={Boolean(step.output)}
-                        text={
-                          <Box display="grid" gridTemplateColumns="110px 1fr">
-                            <Box display="flex" alignItems="center">
-                              <Box mr={2}>
-                                <ProcessStatusIcon status={step.status} />
-                              </Box>
-                              <Typography>Step {index() + 1}:</Typography>
-                            </Box>
-                            <Box
-                              display="flex"
-                              alignItems="center"
-                              justifyContent="space-between"
-                            >
-                              <Typography>{step.name}</Typography>
-                            </Box>
-                          </Box>
-                        }
-                      >
-                        <Code>{step.output}</Code>
-                      </Accordion>
-                    )}
-                  </For>
-                </Grid>
-              </Grid>
-            </Card>
+        <For each={levels()}>
+          {(level) => (
+            <Grid container spacing={4}>
+              <For each={level}>
+                {(jobIndex) => {
+                  const job = () => props.workflow.jobs[jobIndex];
+
+                  return (
+                    <Grid item xs={12} md={getColSize(level)}>
+                      <Card>
+                        <Grid container spacing={4}>
+                          <Grid item xs={12}>
+                            <Typography component="h6">
+                              {capitalize(job().name)}
+                            </Typography>
+                          </Grid>
+                          <Grid item xs={12}>
+                            <For each={job().steps}>
+                              {(step, index) => (
+                                <Accordion
+                                  disabled={
+                                    !step?.output?.match(/\S/) &&
+                                    (step.attempts?.length || 0) <= 1
+                                  }
+                                  expandable={Boolean(step.output)}
+                                  text={
+                                    <Box
+                                      display="grid"
+                                      gridTemplateColumns="110px 1fr"
+                                    >
+                                      <Box display="flex" alignItems="center">
+                                        <Box mr={2}>
+                                          <ProcessStatusIcon
+                                            status={step.status}
+                                          />
+                                        </Box>
+                                        <Typography>
+                                          Step {index() + 1}:
+                                        </Typography>
+                                      </Box>
+                                      <Box
+                                        display="flex"
+                                        alignItems="center"
+                                        justifyContent="space-between"
+                                      >
+                                        <Typography>
+                                          {step.name}
+                                          <Show
+                                            when={
+                                              step.startedAt && step.endedAt
+                                            }
+                                          >
+                                            {` (${formatDuration(
+                                              (step.endedAt || 0) -
+                                                (step.startedAt || 0)
+                                            )})`}
+                                          </Show>
+                                        </Typography>
+                                        <Show
+                                          when={
+                                            step.progress &&
+                                            step.status === 'inProgress'
+                                          }
+                                        >
+                                          <Box
+                                            display="flex"
+                                            alignItems="center"
+                                          >
+                                            <Show when={step.progress?.total}>
+                                              <Box mr={2} width={150}>
+                                                <progress
+                                                  value={step.progress?.loaded}
+                                                  max={step.progress?.total}
+                                                />
+                                              </Box>
+                                            </Show>
+                                            <Typography>
+                                              {formatBytes(
+                                                step.progress?.loaded || 0
+                                              )}
+                                              <Show when={step.progress?.total}>
+                                                {` / ${formatBytes(
+                                                  step.progress?.total || 0
+                                                )}`}
+                                              </Show>
+                                            </Typography>
+                                          </Box>
+                                        </Show>
+                                        <Show
+                                          when={
+                                            props.onRetry &&
+                                            step.status === 'error' &&
+                                            props.workflow.status === 'error'
+                                          }
+                                        >
+                                          <Button
+                                            onClick={(event) => {
+                                              event.preventDefault();
+                                              props.onRetry?.(
+                                                jobIndex,
+                                                index()
+                                              );
+                                            }}
+                                          >
+                                            Retry
+                                          </Button>
+                                        </Show>
+                                      </Box>
+                                    </Box>
+                                  }
+                                >
+                                  <Show
+                                    when={(step.attempts?.length || 0) > 1}
+                                    fallback={<Code>{step.output}</Code>}
+                                  >
+                                    <For each={step.attempts}>
+                                      {(attempt, attemptIndex) => (
+                                        <Box mb={2}>
+                                          <Box
+                                            display="flex"
+                                            alignItems="center"
+                                            mb={2}
+                                          >
+                                            <Box mr={2}>
+                                              <ProcessStatusIcon
+                                                status={attempt.status}
+                                              />
+                                            </Box>
+                                            <Typography>
+                                              Attempt {attemptIndex() + 1}
+                                            </Typography>
+                                          </Box>
+                                          <Code>{attempt.output}</Code>
+                                        </Box>
+                                      )}
+                                    </For>
+                                  </Show>
+                                </Accordion>
+                              )}
+                            </For>
+                          </Grid>
+                        </Grid>
+                      </Card>
+                    </Grid>
+                  );
+                }}
+              </For>
+            </Grid>
           )}
         </For>
       </Grid>
@@ -24,7 +24,12 @@ export const WineEngineSelector: Component<WineEngineSelectorProps> = (
     setOptions(() => {
       const options: SelectableOption[] = [];
       wineEngines().forEach((engine) => {
-        options.push({ value: engine.id as number, label: engine.version });
+        options.push({
+          value: engine.id as number,
+          label: `${engine.version} (${
+            engine.installed ? 'installed' : 'not installed'
+          })`,
+        });
       });
 
       return options;
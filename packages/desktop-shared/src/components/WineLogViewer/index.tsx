@@ -0,0 +1,177 @@
+import {
+  Component,
+  createEffect,
+  createMemo,
+  createSignal,
+  For,
+  on,
+  onCleanup,
+  onMount,
+  Show,
+} from 'solid-js';
+import {
+  Box,
+  Checkbox,
+  Code,
+  Grid,
+  LoadingSpinner,
+  Select,
+  TextInput,
+  Typography,
+} from 'www-shared';
+import { Child } from '@tauri-apps/api/shell';
+import { WineLogLevel } from '@interfaces';
+import { useWineLogModel } from '@models';
+
+export const WineLogViewer: Component = () => {
+  const wineLogModel = useWineLogModel();
+  const wineLogs = wineLogModel.selectWineLogs();
+  const listing = wineLogModel.selectListing();
+  const [path, setPath] = createSignal('');
+  const [content, setContent] = createSignal('');
+  const [search, setSearch] = createSignal('');
+  const [levels, setLevels] = createSignal<WineLogLevel[]>([]);
+  const [following, setFollowing] = createSignal(false);
+  const levelOptions: WineLogLevel[] = ['err', 'fixme', 'warn'];
+  let tail: Child | undefined;
+  let generation = 0;
+
+  const wineLog = () => wineLogs().find((item) => item.path === path());
+
+  /**
+   * Lines are filtered by wine debug channel level and search text.
+   * Wine prefixes them like 0024:fixme:ntdll:... or err:module:...
+   */
+  const lines = createMemo(() => {
+    const levelRegex =
+      levels().length && new RegExp(`(^|:)(${levels().join('|')}):`);
+    const text = search().toLowerCase();
+
+    return content()
+      .split('\n')
+      .filter((line) => !levelRegex || levelRegex.test(line))
+      .filter((line) => !text || line.toLowerCase().includes(text));
+  });
+
+  const toggleLevel = (level: WineLogLevel, checked: boolean) => {
+    setLevels((prev) =>
+      checked ? [...prev, level] : prev.filter((item) => item !== level)
+    );
+  };
+
+  /**
+   * Every stop starts a new generation, so tails spawned
+   * by a previous one are killed once they're ready.
+   */
+  const stopFollowing = () => {
+    generation++;
+    tail?.kill().catch(console.error);
+    tail = undefined;
+  };
+
+  const startFollowing = async () => {
+    stopFollowing();
+    const currentGeneration = generation;
+    const currentWineLog = wineLog();
+    if (!currentWineLog) return;
+
+    const { cmd, child } = await wineLogModel.follow(currentWineLog);
+    if (currentGeneration !== generation) {
+      child.kill().catch(console.error);
+      return;
+    }
+    cmd.stdout.on('data', (data) => setContent((prev) => `${prev}${data}\n`));
+    tail = child;
+  };
+
+  /**
+   * Reads the selected log, the newest one by default.
+   */
+  createEffect(
+    on(wineLog, async (currentWineLog) => {
+      stopFollowing();
+      const currentGeneration = generation;
+      const text = currentWineLog
+        ? await wineLogModel.read(currentWineLog)
+        : '';
+      if (wineLog() !== currentWineLog) return;
+      setContent(text);
+      // Tails aren't started after the viewer is closed, or twice
+      // when following is turned on while reading.
+      currentGeneration === generation && following() && startFollowing();
+    })
+  );
+
+  createEffect(
+    on(following, (flag) => (flag ? startFollowing() : stopFollowing()), {
+      defer: true,
+    })
+  );
+
+  onMount(async () => {
+    await wineLogModel.list();
+    setPath(wineLogs()[0]?.path || '');
+  });
+
+  onCleanup(() => {
+    stopFollowing();
+  });
+
+  return (
+    <Show when={!listing()} fallback={<LoadingSpinner />}>
+      <Show
+        when={wineLogs().length}
+        fallback={<Typography>No logs found.</Typography>}
+      >
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={6}>
+            <Select
+              label="Log"
+              options={wineLogs().map((item) => ({
+                value: item.path,
+                label: item.name,
+              }))}
+              value={path()}
+              onInput={(event) => setPath(event.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextInput
+              label="Search"
+              placeholder="Search"
+              type="search"
+              onInput={(event) => setSearch(event.currentTarget.value)}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Box display="flex" alignItems="center">
+              <For each={levelOptions}>
+                {(level) => (
+                  <Box mr={4}>
+                    <Checkbox
+                      label={`${level}:`}
+                      value={level}
+                      checked={levels().includes(level)}
+                      onChange={(event) =>
+                        toggleLevel(level, event.currentTarget.checked)
+                      }
+                    />
+                  </Box>
+                )}
+              </For>
+              <Checkbox
+                label="Follow"
+                display="switch"
+                checked={following()}
+                onChange={(event) => setFollowing(event.currentTarget.checked)}
+              />
+            </Box>
+          </Grid>
+          <Grid item xs={12}>
+            <Code>{lines().join('\n')}</Code>
+          </Grid>
+        </Grid>
+      </Show>
+    </Show>
+  );
+};
@@ -1,4 +1,5 @@
 export * from './FilePathInput';
 export * from './PipelineViewer';
 export * from './WineEngineSelector';
+export * from './WineLogViewer';
 export * from './WinetricksSelector';
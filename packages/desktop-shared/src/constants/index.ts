@@ -0,0 +1,2 @@
+export * from './setupInput';
+export * from './wineApp';
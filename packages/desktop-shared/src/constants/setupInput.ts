@@ -0,0 +1,11 @@
+import { SetupInputType } from '@interfaces';
+
+/**
+ * File extensions accepted as setup input, by the way they're run.
+ */
+export const SETUP_INPUT_EXTENSIONS: Record<SetupInputType, string[]> = {
+  exe: ['exe'],
+  msi: ['msi'],
+  batch: ['bat', 'cmd'],
+  archive: ['zip', '7z'],
+};
@@ -0,0 +1,60 @@
+import { LegacyWineApp } from '@interfaces';
+import { yup } from 'www-shared';
+import { AnyObjectSchema } from 'yup';
+
+/**
+ * Upgrades the stored app config step by step. The migration at index i
+ * turns a schema version i config into a version i + 1 one, so every
+ * WineApp change needs a new migration at the end of the list.
+ */
+export const WINE_APP_CONFIG_MIGRATIONS: Array<
+  (config: LegacyWineApp) => LegacyWineApp
+> = [
+  //Configs written before the schema was versioned.
+  (config) => ({
+    ...config,
+    engine: { url: '', ...config.engine },
+    setupExecutablePath: config.setupExecutablePath || '',
+    winetricks: {
+      verbs: config.winetricks?.verbs || [],
+      options: config.winetricks?.options || {},
+    },
+    dxvkEnabled: Boolean(config.dxvkEnabled),
+    executables: (Array.isArray(config.executables)
+      ? config.executables
+      : []
+    ).map((executable) => ({ ...executable, main: Boolean(executable.main) })),
+  }),
+];
+
+export const WINE_APP_SCHEMA_VERSION = WINE_APP_CONFIG_MIGRATIONS.length;
+
+export const WINE_APP_CONFIG_SCHEMA: AnyObjectSchema = yup.object({
+  schemaVersion: yup.number().required(),
+  name: yup.string().required(),
+  engine: yup
+    .object({
+      version: yup.string().required(),
+      url: yup.string().defined(),
+    })
+    .required(),
+  setupExecutablePath: yup.string().defined(),
+  winetricks: yup
+    .object({
+      verbs: yup.array(yup.string().required()).required(),
+      options: yup.object(),
+    })
+    .required(),
+  dxvkEnabled: yup.boolean().required(),
+  executables: yup
+    .array(
+      yup.object({
+        path: yup.string().required(),
+        main: yup.boolean().required(),
+        flags: yup.string().optional(),
+        env: yup.object().optional(),
+        cwd: yup.string().optional(),
+      })
+    )
+    .required(),
+});
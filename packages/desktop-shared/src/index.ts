@@ -1,5 +1,6 @@
 export * from './api-clients';
 export * from './components';
+export * from './constants';
 export * from './interfaces';
 export * from './models';
 export * from './states';
@@ -2,8 +2,9 @@ export type AppState = {
   env: {
     HOME: string;
     BASH_SCRIPTS_PATH: string;
-    STUBS_PATH: string;
     ENV_SH: string;
+    WINE_APPS_PATH: string;
+    WINE_ENGINES_PATH: string;
   };
   initializingEnv: boolean;
 };
@@ -1,17 +1,47 @@
 export type BashScript =
+  | 'backupUserData'
+  | 'backupWineEngine'
   | 'buildAppPath'
   | 'bundleApp'
   | 'cmd'
+  | 'copyWrapperArchives'
   | 'scaffoldApp'
+  | 'deleteWineEngine'
+  | 'downloadWineEngine'
+  | 'duplicateWineApp'
   | 'enableDxvk'
+  | 'extractConfigApp'
+  | 'extractFrameworks'
+  | 'extractSetupArchive'
   | 'extractWineEngine'
+  | 'getConfigAppVersions'
+  | 'getWineserverState'
+  | 'importWineEngine'
+  | 'inspectWineApps'
+  | 'inspectWineEngines'
+  | 'killProcessTree'
+  | 'killWineProcesses'
   | 'listAppExecutables'
+  | 'listWineEngines'
   | 'loadDylibs'
+  | 'readFileRange'
+  | 'readInfoPlist'
   | 'regedit'
+  | 'removeSetupArchive'
+  | 'removeWineEngineBackup'
+  | 'renameWineApp'
+  | 'resetWrapper'
+  | 'restoreUserData'
+  | 'restoreWineEngine'
+  | 'runExecutable'
+  | 'runProgram'
+  | 'runSetup'
   | 'taskmgr'
+  | 'trashWineApp'
   | 'uninstaller'
   | 'wine'
   | 'wineboot'
   | 'winecfg'
   | 'winefile'
-  | 'winetrick';
+  | 'winetrick'
+  | 'writeInfoPlist';
@@ -0,0 +1,4 @@
+export type ConfigAppVersion = {
+  version: string;
+  build: string;
+};
@@ -0,0 +1,13 @@
+import { ExecutableCategory, PeInfo } from '@interfaces';
+
+export type ExecutableCandidate = {
+  /**
+   * Relative to the prefix folder, e.g. /drive_c/Program Files/App/app.exe
+   */
+  path: string;
+  fileName: string;
+  category: ExecutableCategory;
+  score: number;
+  peInfo?: PeInfo;
+  shortcuts: string[];
+};
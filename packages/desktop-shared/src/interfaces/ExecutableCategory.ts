@@ -0,0 +1,7 @@
+export type ExecutableCategory =
+  | 'app'
+  | 'installer'
+  | 'uninstaller'
+  | 'updater'
+  | 'redist'
+  | 'crashReporter';
@@ -0,0 +1,19 @@
+import { InfoPlistDocumentType, PlistValue } from '@interfaces';
+
+/**
+ * Keys the wrappers Info.plist is built with. Other keys found
+ * at existing plists are kept as they are.
+ */
+export type InfoPlist = {
+  CFBundleName: string;
+  CFBundleIdentifier: string;
+  CFBundleExecutable: string;
+  CFBundleIconFile: string;
+  CFBundlePackageType: string;
+  CFBundleShortVersionString: string;
+  CFBundleVersion: string;
+  LSMinimumSystemVersion: string;
+  NSHighResolutionCapable: boolean;
+  CFBundleDocumentTypes?: InfoPlistDocumentType[];
+  [key: string]: PlistValue | undefined;
+};
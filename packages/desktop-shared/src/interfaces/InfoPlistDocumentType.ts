@@ -0,0 +1,6 @@
+export type InfoPlistDocumentType = {
+  CFBundleTypeName: string;
+  CFBundleTypeRole: 'Editor' | 'Viewer' | 'Shell' | 'None';
+  CFBundleTypeExtensions: string[];
+  CFBundleTypeIconFile?: string;
+};
@@ -0,0 +1,11 @@
+import { WineApp, WrapperVersion } from '@interfaces';
+
+export type InstalledWineApp = {
+  name: string;
+  path: string;
+  config?: WineApp;
+  configError?: string;
+  wrapperVersion?: WrapperVersion;
+  size?: number;
+  lastLaunchedAt?: number;
+};
@@ -0,0 +1,6 @@
+import { InstalledWineApp } from '@interfaces';
+
+export type InstalledWineAppState = {
+  installedWineApps: InstalledWineApp[];
+  listing: boolean;
+};
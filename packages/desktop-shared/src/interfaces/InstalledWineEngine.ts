@@ -0,0 +1,11 @@
+export type InstalledWineEngine = {
+  version: string;
+  path: string;
+  size: number;
+  wineVersion: string;
+  apps: string[];
+  /**
+   * Apps whose config can't be read, which may use the engine.
+   */
+  unknownApps: string[];
+};
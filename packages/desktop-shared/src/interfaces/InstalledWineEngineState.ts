@@ -0,0 +1,7 @@
+import { InstalledWineEngine } from '@interfaces';
+
+export type InstalledWineEngineState = {
+  installedWineEngines: InstalledWineEngine[];
+  listing: boolean;
+  deleting: boolean;
+};
@@ -1,3 +1,11 @@
 import { JobStep } from '@interfaces';
+import { ProcessStatus } from 'www-shared';
 
-export type Job = { name: string; steps: JobStep[] };
+export type Job = {
+  id?: string;
+  name: string;
+  needs?: string[];
+  if?: (needs: Job[]) => boolean;
+  steps: JobStep[];
+  status?: ProcessStatus;
+};
@@ -1,16 +1,30 @@
-import { BashScript, ScriptOptions, Cmd } from '@interfaces';
+import {
+  BashScript,
+  ScriptOptions,
+  Cmd,
+  JobStepAttempt,
+  JobStepProgress,
+  StepOutputs,
+} from '@interfaces';
 import { ProcessStatus } from 'www-shared';
 import { Child } from '@tauri-apps/api/shell';
 
 export type JobStep = {
+  id?: string;
   name: string;
   script?: string;
   bashScript?: BashScript;
   fn?: (...args: any[]) => Promise<{
     cmd: Cmd;
     child: Child;
-  }>;
+  } | void>;
+  if?: (outputs: StepOutputs) => boolean;
   options?: ScriptOptions;
   status?: ProcessStatus;
   output?: string;
+  attempts?: JobStepAttempt[];
+  progress?: JobStepProgress;
+  exitCode?: number | null;
+  startedAt?: number;
+  endedAt?: number;
 };
@@ -0,0 +1,3 @@
+import { ProcessStatus } from 'www-shared';
+
+export type JobStepAttempt = { status?: ProcessStatus; output?: string };
@@ -0,0 +1,4 @@
+export type JobStepProgress = {
+  loaded: number;
+  total: number;
+};
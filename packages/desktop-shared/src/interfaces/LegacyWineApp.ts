@@ -0,0 +1,10 @@
+import { WineApp, WineAppExecutable, WineEngine } from '@interfaces';
+
+/** A stored app config of any schema version, as read before migrating. */
+export type LegacyWineApp = {
+  schemaVersion?: unknown;
+  engine?: Partial<WineEngine>;
+  winetricks?: Partial<WineApp['winetricks']>;
+  executables?: Array<Partial<WineAppExecutable>>;
+  [key: string]: unknown;
+};
@@ -0,0 +1,8 @@
+import { PeVersionInfo } from '@interfaces';
+
+export type PeInfo = {
+  machine: 'x86' | 'x64' | 'arm64' | 'unknown';
+  is64Bit: boolean;
+  subsystem: 'gui' | 'console' | 'unknown';
+  versionInfo?: PeVersionInfo;
+};
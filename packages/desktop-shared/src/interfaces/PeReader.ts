@@ -0,0 +1,5 @@
+/**
+ * Reads a byte range of a file. Fewer bytes are returned
+ * when the range exceeds the end of the file.
+ */
+export type PeReader = (offset: number, length: number) => Promise<Uint8Array>;
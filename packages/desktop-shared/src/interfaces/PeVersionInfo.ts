@@ -0,0 +1,7 @@
+export type PeVersionInfo = {
+  productName?: string;
+  companyName?: string;
+  fileDescription?: string;
+  fileVersion?: string;
+  productVersion?: string;
+};
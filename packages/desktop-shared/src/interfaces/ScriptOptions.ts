@@ -4,4 +4,7 @@ export type ScriptOptions = {
   force?: boolean;
   env?: Env;
   args?: string;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
 };
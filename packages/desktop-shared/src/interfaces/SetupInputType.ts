@@ -0,0 +1 @@
+export type SetupInputType = 'exe' | 'msi' | 'batch' | 'archive';
@@ -0,0 +1,12 @@
+/**
+ * Fields of a Shell Link (.lnk) file. Paths are windows paths.
+ */
+export type ShellLink = {
+  targetPath?: string;
+  name?: string;
+  relativePath?: string;
+  workingDir?: string;
+  arguments?: string;
+  iconLocation?: string;
+  iconIndex?: number;
+};
@@ -0,0 +1,10 @@
+import { ShellLink } from '@interfaces';
+
+export type Shortcut = {
+  /**
+   * Relative to the prefix folder, like executable paths.
+   */
+  path: string;
+  name: string;
+  link: ShellLink;
+};
@@ -0,0 +1 @@
+export type StepOutputs = Record<string, string | undefined>;
@@ -3,6 +3,7 @@ import { Id } from 'www-shared';
 
 export type WineApp = {
   id?: Id;
+  schemaVersion?: number;
   name: string;
   engine: WineEngine;
   setupExecutablePath: string;
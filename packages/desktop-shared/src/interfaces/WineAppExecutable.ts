@@ -1 +1,10 @@
-export type WineAppExecutable = { path: string; main: boolean; flags?: string };
+import { Env, PeVersionInfo } from '@interfaces';
+
+export type WineAppExecutable = {
+  path: string;
+  main: boolean;
+  flags?: string;
+  env?: Env;
+  cwd?: string;
+  versionInfo?: PeVersionInfo;
+};
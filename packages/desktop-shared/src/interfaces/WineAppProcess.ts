@@ -0,0 +1,6 @@
+export type WineAppProcess = {
+  appName: string;
+  pid?: number;
+  startedAt: number;
+  wineserverRunning: boolean;
+};
@@ -0,0 +1,5 @@
+import { WineAppProcess } from '@interfaces';
+
+export type WineAppProcessState = {
+  wineAppProcesses: WineAppProcess[];
+};
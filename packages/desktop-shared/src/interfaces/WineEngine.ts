@@ -1,3 +1,10 @@
 import { Id } from 'www-shared';
 
-export type WineEngine = { id?: Id; version: string; url: string };
+export type WineEngine = {
+  id?: Id;
+  version: string;
+  url: string;
+  size?: number;
+  checksum?: string;
+  installed?: boolean;
+};
@@ -0,0 +1,8 @@
+import { WineEngine } from '@interfaces';
+
+export type WineEngineManifest = {
+  engines: Array<
+    Pick<WineEngine, 'version'> &
+      Partial<Pick<WineEngine, 'url' | 'size' | 'checksum'>>
+  >;
+};
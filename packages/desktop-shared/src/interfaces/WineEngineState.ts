@@ -3,4 +3,5 @@ import { WineEngine } from '@interfaces';
 export type WineEngineState = {
   wineEngines: WineEngine[];
   listing: boolean;
+  importing: boolean;
 };
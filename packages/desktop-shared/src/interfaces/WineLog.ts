@@ -0,0 +1,4 @@
+export type WineLog = {
+  name: string;
+  path: string;
+};
@@ -0,0 +1 @@
+export type WineLogLevel = 'err' | 'fixme' | 'warn';
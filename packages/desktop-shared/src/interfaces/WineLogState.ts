@@ -0,0 +1,6 @@
+import { WineLog } from '@interfaces';
+
+export type WineLogState = {
+  wineLogs: WineLog[];
+  listing: boolean;
+};
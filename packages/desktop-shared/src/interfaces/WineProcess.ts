@@ -0,0 +1,4 @@
+export type WineProcess = {
+  pid: string;
+  name: string;
+};
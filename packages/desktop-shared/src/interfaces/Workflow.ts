@@ -5,4 +5,7 @@ export type Workflow = {
   name: string;
   jobs: Job[];
   status?: ProcessStatus;
+  error?: string;
+  startedAt?: number;
+  endedAt?: number;
 };
@@ -0,0 +1,7 @@
+import { Workflow } from '@interfaces';
+
+export type WorkflowRun = {
+  id: string;
+  appName: string;
+  workflow: Workflow;
+};
@@ -0,0 +1,6 @@
+import { WorkflowRun } from '@interfaces';
+
+export type WorkflowRunState = {
+  workflowRuns: WorkflowRun[];
+  listing: boolean;
+};
@@ -0,0 +1,7 @@
+import { ConfigAppVersion } from '@interfaces';
+
+export type WrapperVersion = {
+  current: ConfigAppVersion;
+  available?: ConfigAppVersion;
+  outdated: boolean;
+};
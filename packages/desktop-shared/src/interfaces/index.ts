@@ -3,21 +3,51 @@ export * from './BashScript';
 export * from './Cmd';
 export * from './CmdArgs';
 export * from './CommandOptions';
+export * from './ConfigAppVersion';
 export * from './Env';
 export * from './EnvState';
 export * from './EventPayload';
+export * from './ExecutableCandidate';
+export * from './ExecutableCategory';
+export * from './InfoPlist';
+export * from './InfoPlistDocumentType';
+export * from './InstalledWineApp';
+export * from './InstalledWineAppState';
+export * from './InstalledWineEngine';
+export * from './InstalledWineEngineState';
 export * from './Job';
 export * from './JobStep';
+export * from './JobStepAttempt';
+export * from './JobStepProgress';
+export * from './LegacyWineApp';
+export * from './PeInfo';
+export * from './PeReader';
+export * from './PeVersionInfo';
+export * from './PlistValue';
 export * from './ScriptOptions';
+export * from './SetupInputType';
+export * from './ShellLink';
 export * from './ShellProcess';
 export * from './ShellRunner';
+export * from './Shortcut';
+export * from './StepOutputs';
 export * from './WineApp';
 export * from './WineAppExecutable';
+export * from './WineAppProcess';
+export * from './WineAppProcessState';
 export * from './WineEngine';
+export * from './WineEngineManifest';
 export * from './WineEngineState';
+export * from './WineLog';
+export * from './WineLogLevel';
+export * from './WineLogState';
+export * from './WineProcess';
 export * from './WineTool';
 export * from './Winetrick';
 export * from './WinetrickState';
 export * from './WinetrickType';
 export * from './WinetricksOptions';
 export * from './Workflow';
+export * from './WorkflowRun';
+export * from './WorkflowRunState';
+export * from './WrapperVersion';
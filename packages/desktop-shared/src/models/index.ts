@@ -1,3 +1,8 @@
 export * from './useAppModel';
+export * from './useInstalledWineAppModel';
+export * from './useInstalledWineEngineModel';
+export * from './useWineAppProcessModel';
 export * from './useWineEngineModel';
+export * from './useWineLogModel';
 export * from './useWinetrickModel';
+export * from './useWorkflowRunModel';
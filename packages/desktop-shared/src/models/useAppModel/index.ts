@@ -7,16 +7,18 @@ export const useAppModel = () => {
 
   const initEnv = async () => {
     try {
+      const HOME = (await homeDir()).replace(/\/$/, '');
       const BASH_SCRIPTS_PATH = await resolveResource('bash');
       let ENV_SH = `${BASH_SCRIPTS_PATH}/env.sh`;
       ENV_SH = (await exists(ENV_SH)) ? ENV_SH : '';
 
       appState.initializingEnv(true);
       appState.initEnv({
-        HOME: (await homeDir()).replace(/\/$/, ''),
+        HOME,
         BASH_SCRIPTS_PATH,
         ENV_SH,
-        STUBS_PATH: await resolveResource('stubs'),
+        WINE_APPS_PATH: `${HOME}/Wine/apps`,
+        WINE_ENGINES_PATH: `${HOME}/Wine/engines`,
       });
     } finally {
       appState.initializingEnv(false);
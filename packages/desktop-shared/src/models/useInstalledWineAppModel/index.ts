@@ -0,0 +1,92 @@
+import { useWineAppApiClient } from '@api-clients';
+import { useInstalledWineAppState } from '@states';
+import { InstalledWineApp } from '@interfaces';
+import { migrateWineAppConfig } from '@utils';
+import { useWineAppProcessModel } from '@models';
+
+export const useInstalledWineAppModel = () => {
+  const wineAppApiClient = useWineAppApiClient();
+  const installedWineAppState = useInstalledWineAppState();
+  const wineAppProcessModel = useWineAppProcessModel();
+
+  const list = async () => {
+    try {
+      installedWineAppState.listing(true);
+      installedWineAppState.list(await wineAppApiClient.list());
+    } finally {
+      installedWineAppState.listing(false);
+    }
+  };
+
+  /**
+   * Upgrades the stored app config to the current format.
+   */
+  const migrateConfig = async (app: InstalledWineApp) => {
+    const config = await wineAppApiClient.readConfig(app.path);
+    if (!config) throw `${app.name} config.json not found`;
+
+    const migratedConfig = migrateWineAppConfig(config);
+    await wineAppApiClient.writeConfig(app.path, migratedConfig);
+    installedWineAppState.update(app.name, { config: migratedConfig });
+  };
+
+  /**
+   * Apps can't be changed while their wine processes are running.
+   */
+  const assertStopped = (appName: string) => {
+    if (wineAppProcessModel.selectRunning(appName)())
+      throw `${appName} is running, close it first`;
+  };
+
+  const duplicate = async (appName: string, newName: string) => {
+    assertStopped(appName);
+    await wineAppApiClient.duplicate(appName, newName);
+    await list();
+  };
+
+  const rename = async (appName: string, newName: string) => {
+    assertStopped(appName);
+    await wineAppApiClient.rename(appName, newName);
+    await list();
+  };
+
+  const trash = async (appName: string) => {
+    assertStopped(appName);
+    await wineAppApiClient.trash(appName);
+    await list();
+  };
+
+  /**
+   * Keeps the archives wrappers update from in sync with the library app.
+   */
+  const copyWrapperArchives = () => {
+    return wineAppApiClient.copyArchives();
+  };
+
+  const selectInstalledWineApps = () => {
+    return () => installedWineAppState.store.installedWineApps;
+  };
+
+  const selectOutdated = () => {
+    return () =>
+      installedWineAppState.store.installedWineApps.filter(
+        (app) => app.wrapperVersion?.outdated
+      );
+  };
+
+  const selectListing = () => {
+    return () => installedWineAppState.store.listing;
+  };
+
+  return {
+    list,
+    migrateConfig,
+    duplicate,
+    rename,
+    trash,
+    copyWrapperArchives,
+    selectInstalledWineApps,
+    selectOutdated,
+    selectListing,
+  };
+};
@@ -0,0 +1,80 @@
+import { useInstalledWineEngineApiClient } from '@api-clients';
+import { useInstalledWineEngineState } from '@states';
+import { useWineEngineModel } from '@models';
+
+export const useInstalledWineEngineModel = () => {
+  const installedWineEngineApiClient = useInstalledWineEngineApiClient();
+  const installedWineEngineState = useInstalledWineEngineState();
+  const wineEngineModel = useWineEngineModel();
+
+  const list = async () => {
+    try {
+      installedWineEngineState.listing(true);
+      installedWineEngineState.list(await installedWineEngineApiClient.list());
+    } finally {
+      installedWineEngineState.listing(false);
+    }
+  };
+
+  /**
+   * Engines which may be used by apps with a corrupt config can't
+   * be deleted. The engines catalog is refreshed, so its installed
+   * flags are updated.
+   */
+  const deleteEngines = async (versions: string[]) => {
+    const blockedEngine = selectInstalledWineEngines()().find(
+      (engine) => versions.includes(engine.version) && engine.unknownApps.length
+    );
+    if (blockedEngine) {
+      const apps = blockedEngine.unknownApps.join(', ');
+      throw `Wine engine ${blockedEngine.version} may be used by ${apps}, whose config can't be read`;
+    }
+
+    try {
+      installedWineEngineState.deleting(true);
+      for (const version of versions) {
+        await installedWineEngineApiClient.deleteEngine(version);
+        installedWineEngineState.remove(version);
+      }
+    } finally {
+      installedWineEngineState.deleting(false);
+      wineEngineModel.list();
+    }
+  };
+
+  /**
+   * Deletes the engines which are not referenced by any app.
+   */
+  const deleteUnused = () => {
+    return deleteEngines(selectUnused()().map((engine) => engine.version));
+  };
+
+  const selectInstalledWineEngines = () => {
+    return () => installedWineEngineState.store.installedWineEngines;
+  };
+
+  const selectUnused = () => {
+    return () =>
+      installedWineEngineState.store.installedWineEngines.filter(
+        (engine) => !engine.apps.length && !engine.unknownApps.length
+      );
+  };
+
+  const selectListing = () => {
+    return () => installedWineEngineState.store.listing;
+  };
+
+  const selectDeleting = () => {
+    return () => installedWineEngineState.store.deleting;
+  };
+
+  return {
+    list,
+    deleteEngines,
+    deleteUnused,
+    selectInstalledWineEngines,
+    selectUnused,
+    selectListing,
+    selectDeleting,
+  };
+};
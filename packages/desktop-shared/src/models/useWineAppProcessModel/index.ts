@@ -0,0 +1,100 @@
+import { useWineAppProcessApiClient } from '@api-clients';
+import { useWineAppProcessState } from '@states';
+import { Child } from '@tauri-apps/api/shell';
+
+/**
+ * Launcher processes by app name. Children are kept out of the store,
+ * which only holds their serializable state.
+ */
+const children = new Map<string, Child>();
+let pollInterval: ReturnType<typeof setInterval> | undefined;
+
+export const useWineAppProcessModel = () => {
+  const wineAppProcessApiClient = useWineAppProcessApiClient();
+  const wineAppProcessState = useWineAppProcessState();
+
+  /**
+   * Apps are running while their launcher or their wineserver are alive,
+   * e.g. launchers exit before the programs they started. Apps found
+   * running without a launcher, e.g. wrappers opened from Finder, are
+   * tracked until their wineserver exits.
+   */
+  const refresh = async (appName: string) => {
+    const wineserverRunning = await wineAppProcessApiClient.isWineserverRunning(
+      appName
+    );
+
+    if (!wineserverRunning && !children.has(appName)) {
+      wineAppProcessState.remove(appName);
+    } else if (!selectRunning(appName)()) {
+      wineAppProcessState.add({
+        appName,
+        startedAt: Date.now(),
+        wineserverRunning,
+      });
+      pollInterval ??= setInterval(refreshAll, 5000);
+    } else {
+      wineAppProcessState.update(appName, { wineserverRunning });
+    }
+  };
+
+  const refreshAll = async () => {
+    const wineAppProcesses = wineAppProcessState.store.wineAppProcesses;
+    await Promise.all(wineAppProcesses.map((item) => refresh(item.appName)));
+
+    if (!wineAppProcessState.store.wineAppProcesses.length) {
+      clearInterval(pollInterval);
+      pollInterval = undefined;
+    }
+  };
+
+  const launch = async (appName: string) => {
+    if (selectRunning(appName)()) return;
+
+    const { cmd, child } = await wineAppProcessApiClient.launch(appName);
+    children.set(appName, child);
+    wineAppProcessState.add({
+      appName,
+      pid: child.pid,
+      startedAt: Date.now(),
+      wineserverRunning: true,
+    });
+
+    cmd.on('close', () => {
+      children.delete(appName);
+      wineAppProcessState.update(appName, { pid: undefined });
+      refresh(appName);
+    });
+
+    pollInterval ??= setInterval(refreshAll, 5000);
+  };
+
+  const stop = async (appName: string) => {
+    await wineAppProcessApiClient.stop(appName, children.get(appName));
+    await refresh(appName);
+  };
+
+  const selectWineAppProcesses = () => {
+    return () => wineAppProcessState.store.wineAppProcesses;
+  };
+
+  const selectRunning = (appName: string) => {
+    return () =>
+      wineAppProcessState.store.wineAppProcesses.some(
+        (item) => item.appName === appName
+      );
+  };
+
+  const selectRunningCount = () => {
+    return () => wineAppProcessState.store.wineAppProcesses.length;
+  };
+
+  return {
+    launch,
+    stop,
+    refresh,
+    selectWineAppProcesses,
+    selectRunning,
+    selectRunningCount,
+  };
+};
@@ -14,9 +14,23 @@ export const useWineEngineModel = () => {
     }
   };
 
+  const importEngine = async (source: string, version: string) => {
+    try {
+      wineEngineState.importing(true);
+      await wineEngineApiClient.importEngine(source, version);
+      await list();
+    } finally {
+      wineEngineState.importing(false);
+    }
+  };
+
   const selectWineEngines = () => {
     return () => wineEngineState.store.wineEngines;
   };
 
-  return { list, selectWineEngines };
+  const selectImporting = () => {
+    return () => wineEngineState.store.importing;
+  };
+
+  return { list, importEngine, selectWineEngines, selectImporting };
 };
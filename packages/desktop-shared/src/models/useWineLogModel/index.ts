@@ -0,0 +1,35 @@
+import { useWineLogApiClient } from '@api-clients';
+import { useWineLogState } from '@states';
+import { WineLog } from '@interfaces';
+
+export const useWineLogModel = () => {
+  const wineLogApiClient = useWineLogApiClient();
+  const wineLogState = useWineLogState();
+
+  const list = async () => {
+    try {
+      wineLogState.listing(true);
+      wineLogState.list(await wineLogApiClient.list());
+    } finally {
+      wineLogState.listing(false);
+    }
+  };
+
+  const read = (wineLog: WineLog) => {
+    return wineLogApiClient.read(wineLog);
+  };
+
+  const follow = (wineLog: WineLog) => {
+    return wineLogApiClient.follow(wineLog);
+  };
+
+  const selectWineLogs = () => {
+    return () => wineLogState.store.wineLogs;
+  };
+
+  const selectListing = () => {
+    return () => wineLogState.store.listing;
+  };
+
+  return { list, read, follow, selectWineLogs, selectListing };
+};
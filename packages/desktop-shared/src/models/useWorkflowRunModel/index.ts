@@ -0,0 +1,35 @@
+import { useWorkflowRunApiClient } from '@api-clients';
+import { useWorkflowRunState } from '@states';
+import { WorkflowRun } from '@interfaces';
+
+export const useWorkflowRunModel = () => {
+  const workflowRunApiClient = useWorkflowRunApiClient();
+  const workflowRunState = useWorkflowRunState();
+
+  const list = async () => {
+    try {
+      workflowRunState.listing(true);
+      workflowRunState.list(await workflowRunApiClient.list());
+    } finally {
+      workflowRunState.listing(false);
+    }
+  };
+
+  const create = async (run: WorkflowRun, log: string) => {
+    workflowRunState.create(await workflowRunApiClient.create(run, log));
+  };
+
+  const readLog = (run: WorkflowRun) => {
+    return workflowRunApiClient.readLog(run);
+  };
+
+  const selectWorkflowRuns = () => {
+    return () => workflowRunState.store.workflowRuns;
+  };
+
+  const selectListing = () => {
+    return () => workflowRunState.store.listing;
+  };
+
+  return { list, create, readLog, selectWorkflowRuns, selectListing };
+};
@@ -1,3 +1,8 @@
 export * from './useAppState';
+export * from './useInstalledWineAppState';
+export * from './useInstalledWineEngineState';
+export * from './useWineAppProcessState';
 export * from './useWineEngineState';
+export * from './useWineLogState';
 export * from './useWinetrickState';
+export * from './useWorkflowRunState';
@@ -2,7 +2,13 @@ import { createStore } from 'solid-js/store';
 import { AppState } from '@interfaces';
 
 const [store, setStore] = createStore<AppState>({
-  env: { HOME: '', BASH_SCRIPTS_PATH: '', STUBS_PATH: '', ENV_SH: '' },
+  env: {
+    HOME: '',
+    BASH_SCRIPTS_PATH: '',
+    ENV_SH: '',
+    WINE_APPS_PATH: '',
+    WINE_ENGINES_PATH: '',
+  },
   initializingEnv: false,
 });
 
@@ -0,0 +1,27 @@
+import { InstalledWineApp, InstalledWineAppState } from '@interfaces';
+import { createStore } from 'solid-js/store';
+
+const [store, setStore] = createStore<InstalledWineAppState>({
+  installedWineApps: [],
+  listing: false,
+});
+
+export const useInstalledWineAppState = () => {
+  const list = (installedWineApps: InstalledWineApp[]) => {
+    setStore('installedWineApps', installedWineApps);
+  };
+
+  const update = (name: string, data: Partial<InstalledWineApp>) => {
+    setStore(
+      'installedWineApps',
+      (app) => app.name === name,
+      (app) => ({ ...app, ...data })
+    );
+  };
+
+  const listing = (flag: boolean) => {
+    setStore('listing', flag);
+  };
+
+  return { list, update, listing, store };
+};
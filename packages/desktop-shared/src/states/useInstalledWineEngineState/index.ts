@@ -0,0 +1,30 @@
+import { InstalledWineEngine, InstalledWineEngineState } from '@interfaces';
+import { createStore } from 'solid-js/store';
+
+const [store, setStore] = createStore<InstalledWineEngineState>({
+  installedWineEngines: [],
+  listing: false,
+  deleting: false,
+});
+
+export const useInstalledWineEngineState = () => {
+  const list = (installedWineEngines: InstalledWineEngine[]) => {
+    setStore('installedWineEngines', installedWineEngines);
+  };
+
+  const remove = (version: string) => {
+    setStore('installedWineEngines', (installedWineEngines) =>
+      installedWineEngines.filter((engine) => engine.version !== version)
+    );
+  };
+
+  const listing = (flag: boolean) => {
+    setStore('listing', flag);
+  };
+
+  const deleting = (flag: boolean) => {
+    setStore('deleting', flag);
+  };
+
+  return { list, remove, listing, deleting, store };
+};
@@ -0,0 +1,33 @@
+import { WineAppProcess, WineAppProcessState } from '@interfaces';
+import { createStore } from 'solid-js/store';
+
+const [store, setStore] = createStore<WineAppProcessState>({
+  wineAppProcesses: [],
+});
+
+export const useWineAppProcessState = () => {
+  const add = (wineAppProcess: WineAppProcess) => {
+    setStore('wineAppProcesses', (wineAppProcesses) => [
+      ...wineAppProcesses.filter(
+        (item) => item.appName !== wineAppProcess.appName
+      ),
+      wineAppProcess,
+    ]);
+  };
+
+  const update = (appName: string, data: Partial<WineAppProcess>) => {
+    setStore(
+      'wineAppProcesses',
+      (item) => item.appName === appName,
+      (item) => ({ ...item, ...data })
+    );
+  };
+
+  const remove = (appName: string) => {
+    setStore('wineAppProcesses', (wineAppProcesses) =>
+      wineAppProcesses.filter((item) => item.appName !== appName)
+    );
+  };
+
+  return { add, update, remove, store };
+};
@@ -4,6 +4,7 @@ import { createStore } from 'solid-js/store';
 const [store, setStore] = createStore<WineEngineState>({
   wineEngines: [],
   listing: false,
+  importing: false,
 });
 
 export const useWineEngineState = () => {
@@ -15,5 +16,9 @@ export const useWineEngineState = () => {
     setStore('listing', flag);
   };
 
-  return { list, listing, store };
+  const importing = (flag: boolean) => {
+    setStore('importing', flag);
+  };
+
+  return { list, listing, importing, store };
 };
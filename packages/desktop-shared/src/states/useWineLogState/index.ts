@@ -0,0 +1,19 @@
+import { WineLog, WineLogState } from '@interfaces';
+import { createStore } from 'solid-js/store';
+
+const [store, setStore] = createStore<WineLogState>({
+  wineLogs: [],
+  listing: false,
+});
+
+export const useWineLogState = () => {
+  const list = (wineLogs: WineLog[]) => {
+    setStore('wineLogs', wineLogs);
+  };
+
+  const listing = (flag: boolean) => {
+    setStore('listing', flag);
+  };
+
+  return { list, listing, store };
+};
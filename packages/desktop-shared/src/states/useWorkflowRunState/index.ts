@@ -0,0 +1,23 @@
+import { WorkflowRun, WorkflowRunState } from '@interfaces';
+import { createStore } from 'solid-js/store';
+
+const [store, setStore] = createStore<WorkflowRunState>({
+  workflowRuns: [],
+  listing: false,
+});
+
+export const useWorkflowRunState = () => {
+  const list = (workflowRuns: WorkflowRun[]) => {
+    setStore('workflowRuns', workflowRuns);
+  };
+
+  const create = (workflowRun: WorkflowRun) => {
+    setStore('workflowRuns', (workflowRuns) => [workflowRun, ...workflowRuns]);
+  };
+
+  const listing = (flag: boolean) => {
+    setStore('listing', flag);
+  };
+
+  return { list, create, listing, store };
+};
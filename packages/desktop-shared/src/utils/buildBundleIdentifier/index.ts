@@ -0,0 +1,16 @@
+/**
+ * Bundle identifiers only allow alphanumerics, hyphens and periods.
+ */
+export const buildBundleIdentifier = (name: string, company?: string) => {
+  const toComponent = (value: string) =>
+    value
+      .normalize('NFD')
+      .replace(/[^A-Za-z0-9-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .toLowerCase();
+
+  return ['com.wine-mac-apps', company, name]
+    .map((value) => value && toComponent(value))
+    .filter(Boolean)
+    .join('.');
+};
@@ -0,0 +1,25 @@
+import { InfoPlist } from '@interfaces';
+import { buildBundleIdentifier, buildPlist } from '@utils';
+
+/**
+ * Builds the wrapper Info.plist, filling the keys that aren't given.
+ * Wrappers open no document types until they're set at the config app.
+ */
+export const buildInfoPlist = (
+  args: Partial<InfoPlist> & Pick<InfoPlist, 'CFBundleName'>
+) => {
+  const infoPlist: InfoPlist = {
+    CFBundleIdentifier: buildBundleIdentifier(args.CFBundleName),
+    CFBundleExecutable: 'winemacapp',
+    CFBundleIconFile: 'winemacapp.icns',
+    CFBundlePackageType: 'APPL',
+    CFBundleShortVersionString: '1.0.0',
+    CFBundleVersion: '1',
+    LSMinimumSystemVersion: '10.15',
+    NSHighResolutionCapable: true,
+    CFBundleDocumentTypes: [],
+    ...args,
+  };
+
+  return buildPlist(infoPlist);
+};
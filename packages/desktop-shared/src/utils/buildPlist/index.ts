@@ -0,0 +1,64 @@
+import { PlistValue } from '@interfaces';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const buildValue = (value: PlistValue, indent: string): string => {
+  const nextIndent = `${indent}  `;
+
+  if (typeof value === 'string')
+    return `${indent}<string>${escapeXml(value)}</string>`;
+  if (typeof value === 'boolean') return `${indent}<${value}/>`;
+  if (typeof value === 'number')
+    return Number.isInteger(value)
+      ? `${indent}<integer>${value}</integer>`
+      : `${indent}<real>${value}</real>`;
+  if (value instanceof Date)
+    return `${indent}<date>${value
+      .toISOString()
+      .replace(/\.\d+Z$/, 'Z')}</date>`;
+  if (value instanceof Uint8Array)
+    return `${indent}<data>${btoa(
+      Array.from(value, (byte) => String.fromCharCode(byte)).join('')
+    )}</data>`;
+  if (Array.isArray(value)) {
+    if (!value.length) return `${indent}<array/>`;
+    return [
+      `${indent}<array>`,
+      ...value.map((item) => buildValue(item, nextIndent)),
+      `${indent}</array>`,
+    ].join('\n');
+  }
+
+  const entries = Object.entries(value).filter(
+    ([, item]) => item !== undefined
+  );
+  if (!entries.length) return `${indent}<dict/>`;
+  return [
+    `${indent}<dict>`,
+    ...entries.flatMap(([key, item]) => [
+      `${nextIndent}<key>${escapeXml(key)}</key>`,
+      buildValue(item as PlistValue, nextIndent),
+    ]),
+    `${indent}</dict>`,
+  ].join('\n');
+};
+
+/**
+ * Serializes the value as an XML property list document.
+ */
+export const buildPlist = (value: PlistValue) => {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    buildValue(value, ''),
+    '</plist>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,25 @@
+import { ExecutableCategory } from '@interfaces';
+
+const CATEGORY_PATTERNS: Array<[ExecutableCategory, RegExp]> = [
+  ['uninstaller', /(^unins\d*\.exe$|uninst)/i],
+  [
+    'redist',
+    /(redist|vcredist|vc_redist|directx|dxsetup|dotnetfx|ndp\d+|oalinst|physx|vulkanrt|\/package cache\/)/i,
+  ],
+  ['crashReporter', /(crash|bugreport|errorreport|sentry|reporter)/i],
+  ['updater', /(update|patcher|launcherhelper)/i],
+  ['installer', /(^|\/)(setup|install(er)?)[^/]*\.exe$/i],
+];
+
+/**
+ * Guesses what an executable is for by its path. Executables that
+ * don't match any helper pattern are taken as app executables.
+ */
+export const classifyExecutable = (path: string): ExecutableCategory => {
+  const fileName = path.split('/').pop() || '';
+  const match = CATEGORY_PATTERNS.find(([category, pattern]) =>
+    category === 'redist' ? pattern.test(path) : pattern.test(fileName)
+  );
+
+  return match ? match[0] : 'app';
+};
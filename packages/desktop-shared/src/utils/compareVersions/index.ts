@@ -0,0 +1,18 @@
+/**
+ * Compares dot separated versions numerically, part by part.
+ * Only the leading digits of every part count, so 0-beta is 0.
+ * Returns a positive number when a is newer than b.
+ */
+export const compareVersions = (a: string, b: string) => {
+  const toParts = (version: string) =>
+    version.split('.').map((part) => parseInt(part, 10) || 0);
+  const aParts = toParts(a);
+  const bParts = toParts(b);
+
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff) return diff;
+  }
+
+  return 0;
+};
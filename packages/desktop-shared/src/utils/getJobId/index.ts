@@ -0,0 +1,7 @@
+import { Job } from '@interfaces';
+
+/**
+ * Gets the identifier used by other jobs to declare their needs.
+ * Jobs without id are referenced by name.
+ */
+export const getJobId = (job: Job) => job.id ?? job.name;
@@ -0,0 +1,34 @@
+import { Job } from '@interfaces';
+import { getJobId } from '@utils';
+
+/**
+ * Groups the job indexes by dependency level. Jobs without needs are
+ * placed at level 0, the rest one level after their deepest need.
+ */
+export const getJobLevels = (jobs: Job[]) => {
+  const levels: number[][] = [];
+  const depths: number[] = [];
+  const visiting = new Set<number>();
+
+  const getDepth = (i: number): number => {
+    if (depths[i] !== undefined) return depths[i];
+    if (visiting.has(i)) throw `Job ${jobs[i].name} has circular needs`;
+    visiting.add(i);
+
+    let depth = 0;
+    for (const id of jobs[i].needs || []) {
+      const j = jobs.findIndex((job) => getJobId(job) === id);
+      if (j === -1) throw `Job ${jobs[i].name} needs unknown job ${id}`;
+      depth = Math.max(depth, getDepth(j) + 1);
+    }
+
+    visiting.delete(i);
+    return (depths[i] = depth);
+  };
+
+  jobs.forEach((_, i) => {
+    (levels[getDepth(i)] ??= []).push(i);
+  });
+
+  return levels;
+};
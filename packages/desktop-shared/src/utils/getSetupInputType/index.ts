@@ -0,0 +1,14 @@
+import { SetupInputType } from '@interfaces';
+import { SETUP_INPUT_EXTENSIONS } from '@constants';
+
+/**
+ * Detects the setup input type by the file extension.
+ */
+export const getSetupInputType = (path: string) => {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  const entry = Object.entries(SETUP_INPUT_EXTENSIONS).find(([, extensions]) =>
+    extensions.includes(extension)
+  );
+
+  return entry?.[0] as SetupInputType | undefined;
+};
@@ -0,0 +1,11 @@
+/**
+ * Derives an engine version name from the path of an engine archive
+ * or folder. wswine.bundle folders are named after their parent folder.
+ */
+export const getWineEngineVersion = (path: string) => {
+  const parts = path.replace(/\/+$/, '').split('/');
+  let name = parts.pop() || '';
+  if (name === 'wswine.bundle') name = parts.pop() || '';
+
+  return name.replace(/\.(tar\.7z|tar\.xz|tar\.gz|tgz|bundle)$/, '');
+};
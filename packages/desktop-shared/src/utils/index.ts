@@ -1,2 +1,23 @@
+export * from './buildBundleIdentifier';
+export * from './buildInfoPlist';
+export * from './buildPlist';
+export * from './classifyExecutable';
+export * from './compareVersions';
+export * from './getJobId';
+export * from './getJobLevels';
+export * from './getSetupInputType';
+export * from './getWineEngineVersion';
+export * from './mapPeVersionInfo';
+export * from './mapShortcutExecutable';
+export * from './mapWrapperVersion';
+export * from './migrateWineAppConfig';
+export * from './parseInfoPlist';
+export * from './parseLnk';
+export * from './parsePe';
+export * from './parsePlist';
+export * from './parseWineAppConfig';
+export * from './parseWineEngineManifest';
+export * from './rankExecutables';
+export * from './toPrefixPath';
 export * from './useShellRunner';
 export * from './useWineApp';
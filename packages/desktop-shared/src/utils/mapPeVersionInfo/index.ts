@@ -0,0 +1,31 @@
+import { InfoPlist, PeVersionInfo } from '@interfaces';
+import { buildBundleIdentifier } from '@utils';
+
+/**
+ * Maps the executable version resource to the Info.plist keys.
+ * Bundle versions only allow up to three numbers.
+ */
+export const mapPeVersionInfo = (
+  appName: string,
+  versionInfo: PeVersionInfo = {}
+): Pick<
+  InfoPlist,
+  | 'CFBundleName'
+  | 'CFBundleIdentifier'
+  | 'CFBundleShortVersionString'
+  | 'CFBundleVersion'
+> => {
+  const name = versionInfo.productName || appName;
+  const version = (versionInfo.productVersion || versionInfo.fileVersion || '')
+    .match(/\d+/g)
+    ?.slice(0, 3)
+    .map(Number)
+    .join('.');
+
+  return {
+    CFBundleName: name,
+    CFBundleIdentifier: buildBundleIdentifier(name, versionInfo.companyName),
+    CFBundleShortVersionString: version || '1.0.0',
+    CFBundleVersion: version || '1',
+  };
+};
@@ -0,0 +1,38 @@
+import { Shortcut, WineAppExecutable } from '@interfaces';
+import { toPrefixPath } from '@utils';
+
+/**
+ * Resolves a path relative to the shortcut folder, e.g.
+ * ..\..\Program Files\App\app.exe
+ */
+const resolveRelativePath = (shortcutPath: string, relativePath: string) => {
+  const dirs = shortcutPath.split('/').slice(0, -1);
+  for (const dir of relativePath.split('\\')) {
+    if (dir === '..') dirs.pop();
+    else if (dir && dir !== '.') dirs.push(dir);
+  }
+  return dirs.join('/');
+};
+
+/**
+ * Maps a shortcut to the executable it launches. Shortcuts to
+ * documents, urls or unresolved paths are skipped.
+ */
+export const mapShortcutExecutable = (
+  shortcut: Shortcut
+): WineAppExecutable | undefined => {
+  const { link } = shortcut;
+  const path = link.targetPath
+    ? toPrefixPath(link.targetPath)
+    : link.relativePath
+    ? resolveRelativePath(shortcut.path, link.relativePath)
+    : '';
+  if (!/\.exe$/i.test(path) || path.includes('%')) return undefined;
+
+  return {
+    path,
+    main: false,
+    flags: link.arguments || '',
+    cwd: link.workingDir ? toPrefixPath(link.workingDir) : '',
+  };
+};
@@ -0,0 +1,31 @@
+import { ConfigAppVersion, WrapperVersion } from '@interfaces';
+import { compareVersions, parseInfoPlist } from '@utils';
+
+/**
+ * Maps the getConfigAppVersions.sh output, the Info.plist of the
+ * wrapper config app followed by the archived one. The wrapper is
+ * outdated when the archived config app has a newer version or build.
+ */
+export const mapWrapperVersion = (data: string = ''): WrapperVersion => {
+  const [current, available]: Array<ConfigAppVersion | undefined> = data
+    .split('</plist>')
+    .filter((plist) => plist.trim())
+    .map((plist) => {
+      const infoPlist = parseInfoPlist(`${plist}</plist>`);
+      return {
+        version: infoPlist.CFBundleShortVersionString,
+        build: infoPlist.CFBundleVersion,
+      };
+    });
+  if (!current) throw 'Config app Info.plist is empty';
+
+  return {
+    current,
+    available,
+    outdated: Boolean(
+      available &&
+        (compareVersions(available.version, current.version) ||
+          compareVersions(available.build, current.build)) > 0
+    ),
+  };
+};
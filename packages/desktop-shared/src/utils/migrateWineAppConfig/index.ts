@@ -0,0 +1,35 @@
+import { LegacyWineApp, WineApp } from '@interfaces';
+import {
+  WINE_APP_CONFIG_MIGRATIONS,
+  WINE_APP_CONFIG_SCHEMA,
+  WINE_APP_SCHEMA_VERSION,
+} from '@constants';
+import { yup } from 'www-shared';
+
+/**
+ * Upgrades a stored app config to the current schema version and
+ * validates it. Configs without schemaVersion are version 0.
+ */
+export const migrateWineAppConfig = (data: unknown): WineApp => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data))
+    throw 'Invalid config.json: the file has no config object';
+
+  let config = data as LegacyWineApp;
+  const schemaVersion = Number(config.schemaVersion) || 0;
+  if (schemaVersion > WINE_APP_SCHEMA_VERSION)
+    throw `config.json schema version ${schemaVersion} is newer than the supported ${WINE_APP_SCHEMA_VERSION}, update the config app`;
+
+  for (let i = schemaVersion; i < WINE_APP_SCHEMA_VERSION; i++) {
+    config = { ...WINE_APP_CONFIG_MIGRATIONS[i](config), schemaVersion: i + 1 };
+  }
+
+  try {
+    WINE_APP_CONFIG_SCHEMA.validateSync(config, { abortEarly: false });
+  } catch (error) {
+    if (error instanceof yup.ValidationError)
+      throw `Invalid config.json: ${error.errors.join(', ')}`;
+    throw error;
+  }
+
+  return config as WineApp;
+};
@@ -0,0 +1,32 @@
+import { InfoPlist } from '@interfaces';
+import { parsePlist } from '@utils';
+
+/**
+ * Parses the wrapper Info.plist. Missing string keys are read as empty.
+ */
+export const parseInfoPlist = (data: string): InfoPlist => {
+  const plist = parsePlist(data);
+  if (
+    typeof plist !== 'object' ||
+    Array.isArray(plist) ||
+    plist instanceof Date ||
+    plist instanceof Uint8Array
+  )
+    throw 'Info.plist root must be a dict';
+
+  const getString = (key: string) =>
+    typeof plist[key] === 'string' ? (plist[key] as string) : '';
+
+  return {
+    ...plist,
+    CFBundleName: getString('CFBundleName'),
+    CFBundleIdentifier: getString('CFBundleIdentifier'),
+    CFBundleExecutable: getString('CFBundleExecutable'),
+    CFBundleIconFile: getString('CFBundleIconFile'),
+    CFBundlePackageType: getString('CFBundlePackageType'),
+    CFBundleShortVersionString: getString('CFBundleShortVersionString'),
+    CFBundleVersion: getString('CFBundleVersion'),
+    LSMinimumSystemVersion: getString('LSMinimumSystemVersion'),
+    NSHighResolutionCapable: plist.NSHighResolutionCapable === true,
+  } as InfoPlist;
+};
@@ -0,0 +1,138 @@
+import { ShellLink } from '@interfaces';
+
+const HEADER_SIZE = 0x4c;
+const HAS_LINK_TARGET_ID_LIST = 0x1;
+const HAS_LINK_INFO = 0x2;
+const IS_UNICODE = 0x80;
+const HAS_EXP_STRING = 0x200;
+const VOLUME_ID_AND_LOCAL_BASE_PATH = 0x1;
+const ENVIRONMENT_VARIABLE_BLOCK = 0xa0000001;
+
+/**
+ * String data fields, in the order they're stored after the link info.
+ */
+const STRING_DATA: Array<[number, keyof ShellLink]> = [
+  [0x4, 'name'],
+  [0x8, 'relativePath'],
+  [0x10, 'workingDir'],
+  [0x20, 'arguments'],
+  [0x40, 'iconLocation'],
+];
+
+/**
+ * Env vars installers use in link targets, as set at wine prefixes.
+ */
+const ENV_VARS: Record<string, string> = {
+  programfiles: 'C:\\Program Files',
+  'programfiles(x86)': 'C:\\Program Files (x86)',
+  programdata: 'C:\\ProgramData',
+  allusersprofile: 'C:\\ProgramData',
+  systemdrive: 'C:',
+  systemroot: 'C:\\windows',
+  windir: 'C:\\windows',
+};
+
+const readAnsi = (data: Uint8Array, offset: number, end?: number) => {
+  const nullIndex = data.indexOf(0, offset);
+  return new TextDecoder('windows-1252').decode(
+    data.subarray(
+      offset,
+      Math.min(end ?? data.length, nullIndex < 0 ? data.length : nullIndex)
+    )
+  );
+};
+
+const readUnicode = (view: DataView, offset: number, end?: number) => {
+  let text = '';
+  for (; offset + 1 < (end ?? view.byteLength); offset += 2) {
+    const code = view.getUint16(offset, true);
+    if (!code) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+};
+
+const expandEnvVars = (path: string) =>
+  path.replace(
+    /%([^%]+)%/g,
+    (match, name: string) => ENV_VARS[name.toLowerCase()] || match
+  );
+
+/**
+ * Reads the local path of the link info, which installers fill
+ * for local targets.
+ */
+const readLinkInfoPath = (data: Uint8Array, offset: number) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const headerSize = view.getUint32(offset + 4, true);
+  if (!(view.getUint32(offset + 8, true) & VOLUME_ID_AND_LOCAL_BASE_PATH))
+    return undefined;
+
+  const unicodeOffsets =
+    headerSize >= 0x24
+      ? [view.getUint32(offset + 28, true), view.getUint32(offset + 32, true)]
+      : [];
+  const [basePath, pathSuffix] =
+    unicodeOffsets.length && unicodeOffsets.every(Boolean)
+      ? unicodeOffsets.map((item) => readUnicode(view, offset + item))
+      : [16, 24].map((item) =>
+          readAnsi(data, offset + view.getUint32(offset + item, true))
+        );
+
+  return basePath + pathSuffix;
+};
+
+/**
+ * Parses a Shell Link (.lnk) file as described by MS-SHLLINK.
+ * Targets stored with env vars, e.g. %ProgramFiles%, are expanded
+ * to their wine prefix paths.
+ */
+export const parseLnk = (data: Uint8Array): ShellLink => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length < HEADER_SIZE || view.getUint32(0, true) !== HEADER_SIZE)
+    throw 'Not a shell link file';
+
+  const flags = view.getUint32(20, true);
+  const link: ShellLink = { iconIndex: view.getInt32(56, true) };
+  let offset = HEADER_SIZE;
+
+  if (flags & HAS_LINK_TARGET_ID_LIST)
+    offset += 2 + view.getUint16(offset, true);
+  if (flags & HAS_LINK_INFO) {
+    link.targetPath = readLinkInfoPath(data, offset);
+    offset += view.getUint32(offset, true);
+  }
+
+  for (const [flag, key] of STRING_DATA) {
+    if (!(flags & flag)) continue;
+    const count = view.getUint16(offset, true);
+    const size = flags & IS_UNICODE ? count * 2 : count;
+    const value =
+      flags & IS_UNICODE
+        ? readUnicode(view, offset + 2, offset + 2 + size)
+        : readAnsi(data, offset + 2, offset + 2 + size);
+    (link as Record<string, unknown>)[key] = value;
+    offset += 2 + size;
+  }
+
+  while (offset + 8 <= data.length) {
+    const blockSize = view.getUint32(offset, true);
+    if (blockSize < 8) break;
+    const signature = view.getUint32(offset + 4, true);
+    if (
+      signature === ENVIRONMENT_VARIABLE_BLOCK &&
+      flags & HAS_EXP_STRING &&
+      !link.targetPath
+    ) {
+      link.targetPath =
+        readUnicode(view, offset + 268, offset + 788) ||
+        readAnsi(data, offset + 8, offset + 268);
+    }
+    offset += blockSize;
+  }
+
+  if (link.targetPath) link.targetPath = expandEnvVars(link.targetPath);
+  if (link.workingDir) link.workingDir = expandEnvVars(link.workingDir);
+
+  return link;
+};
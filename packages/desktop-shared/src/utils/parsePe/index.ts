@@ -0,0 +1,215 @@
+import { PeInfo, PeReader, PeVersionInfo } from '@interfaces';
+
+const CHUNK_SIZE = 64 * 1024;
+const RT_VERSION = 16;
+const VERSION_STRINGS: Record<string, keyof PeVersionInfo> = {
+  ProductName: 'productName',
+  CompanyName: 'companyName',
+  FileDescription: 'fileDescription',
+  FileVersion: 'fileVersion',
+  ProductVersion: 'productVersion',
+};
+
+/**
+ * Reads through chunks, so the many small reads of the headers
+ * and the resource tree don't hit the file each time.
+ */
+const createChunkReader = (read: PeReader) => {
+  const chunks: Array<{ offset: number; data: Uint8Array }> = [];
+
+  return async (offset: number, length: number) => {
+    let chunk = chunks.find(
+      (item) =>
+        offset >= item.offset &&
+        offset + length <= item.offset + item.data.length
+    );
+    if (!chunk) {
+      chunk = {
+        offset,
+        data: await read(offset, Math.max(length, CHUNK_SIZE)),
+      };
+      chunks.push(chunk);
+    }
+    // Headers pointing past the end belong to truncated files.
+    if (offset + length > chunk.offset + chunk.data.length)
+      throw 'Not a PE file';
+
+    const start = offset - chunk.offset;
+    return new DataView(
+      chunk.data.buffer,
+      chunk.data.byteOffset + start,
+      length
+    );
+  };
+};
+
+const readUtf16 = (view: DataView, offset: number, end: number) => {
+  let text = '';
+  for (; offset + 1 < end; offset += 2) {
+    const code = view.getUint16(offset, true);
+    if (!code) break;
+    text += String.fromCharCode(code);
+  }
+  return { text, end: offset + 2 };
+};
+
+const align4 = (offset: number) => (offset + 3) & ~3;
+
+/**
+ * Walks a version resource block: length, value length, type,
+ * key and children, as every VS_VERSIONINFO node is laid out.
+ */
+const readVersionBlock = (view: DataView, offset: number) => {
+  const length = view.getUint16(offset, true);
+  const valueLength = view.getUint16(offset + 2, true);
+  const type = view.getUint16(offset + 4, true);
+  const end = Math.min(offset + length, view.byteLength);
+  const key = readUtf16(view, offset + 6, end);
+  const valueOffset = align4(key.end);
+  const valueSize = type === 1 ? valueLength * 2 : valueLength;
+
+  return {
+    key: key.text,
+    end,
+    valueOffset,
+    childrenOffset: align4(valueOffset + valueSize),
+  };
+};
+
+const readVersionStrings = (view: DataView) => {
+  const versionInfo: PeVersionInfo = {};
+  const root = readVersionBlock(view, 0);
+  if (root.key !== 'VS_VERSION_INFO') return versionInfo;
+
+  for (let offset = root.childrenOffset; offset + 6 < root.end; ) {
+    const fileInfo = readVersionBlock(view, offset);
+    if (fileInfo.end <= offset) break;
+
+    if (fileInfo.key === 'StringFileInfo') {
+      // Only the first string table is read, the one of the main language.
+      const table = readVersionBlock(view, fileInfo.childrenOffset);
+      for (let i = table.childrenOffset; i + 6 < table.end; ) {
+        const string = readVersionBlock(view, i);
+        if (string.end <= i) break;
+        const name = VERSION_STRINGS[string.key];
+        const value = readUtf16(view, string.valueOffset, string.end).text;
+        if (name && value.trim()) versionInfo[name] = value.trim();
+        i = align4(string.end);
+      }
+    }
+
+    offset = align4(fileInfo.end);
+  }
+
+  return versionInfo;
+};
+
+const readPe = async (read: PeReader): Promise<PeInfo> => {
+  const readView = createChunkReader(read);
+
+  const dosHeader = await readView(0, 64);
+  if (dosHeader.getUint16(0, true) !== 0x5a4d) throw 'Not a PE file';
+  const peOffset = dosHeader.getUint32(0x3c, true);
+
+  const coffHeader = await readView(peOffset, 24);
+  if (coffHeader.getUint32(0, true) !== 0x4550) throw 'Not a PE file';
+  const machineId = coffHeader.getUint16(4, true);
+  const sectionsCount = coffHeader.getUint16(6, true);
+  const optionalHeaderSize = coffHeader.getUint16(20, true);
+  if (optionalHeaderSize < 96) throw 'Not a PE file';
+
+  const optionalHeader = await readView(peOffset + 24, optionalHeaderSize);
+  const is64Bit = optionalHeader.getUint16(0, true) === 0x20b;
+  const subsystemId = optionalHeader.getUint16(68, true);
+  const dataDirectoryOffset = is64Bit ? 112 : 96;
+  if (optionalHeaderSize < dataDirectoryOffset) throw 'Not a PE file';
+  const dataDirectoryCount = optionalHeader.getUint32(
+    dataDirectoryOffset - 4,
+    true
+  );
+
+  const info: PeInfo = {
+    machine:
+      machineId === 0x14c
+        ? 'x86'
+        : machineId === 0x8664
+        ? 'x64'
+        : machineId === 0xaa64
+        ? 'arm64'
+        : 'unknown',
+    is64Bit,
+    subsystem:
+      subsystemId === 2 ? 'gui' : subsystemId === 3 ? 'console' : 'unknown',
+  };
+
+  if (dataDirectoryCount <= 2 || optionalHeaderSize < dataDirectoryOffset + 24)
+    return info;
+  const resourceRva = optionalHeader.getUint32(dataDirectoryOffset + 16, true);
+  if (!resourceRva) return info;
+
+  const sectionTable = await readView(
+    peOffset + 24 + optionalHeaderSize,
+    sectionsCount * 40
+  );
+  const rvaToOffset = (rva: number) => {
+    for (let i = 0; i < sectionsCount; i++) {
+      const virtualAddress = sectionTable.getUint32(i * 40 + 12, true);
+      const virtualSize = Math.max(
+        sectionTable.getUint32(i * 40 + 8, true),
+        sectionTable.getUint32(i * 40 + 16, true)
+      );
+      if (rva >= virtualAddress && rva < virtualAddress + virtualSize)
+        return rva - virtualAddress + sectionTable.getUint32(i * 40 + 20, true);
+    }
+    throw `RVA ${rva} is out of the PE sections`;
+  };
+  const resourceOffset = rvaToOffset(resourceRva);
+
+  /**
+   * Returns the entry offset matching the id, or the first entry,
+   * as resource directories are nested by type, name and language.
+   */
+  const findResourceEntry = async (directoryOffset: number, id?: number) => {
+    const directory = await readView(resourceOffset + directoryOffset, 16);
+    const count = directory.getUint16(12, true) + directory.getUint16(14, true);
+    const entries = await readView(
+      resourceOffset + directoryOffset + 16,
+      count * 8
+    );
+    for (let i = 0; i < count; i++) {
+      const name = entries.getUint32(i * 8, true);
+      if (id === undefined || name === id)
+        return entries.getUint32(i * 8 + 4, true);
+    }
+  };
+
+  const typeEntry = await findResourceEntry(0, RT_VERSION);
+  if (typeEntry === undefined || !(typeEntry & 0x80000000)) return info;
+  const nameEntry = await findResourceEntry(typeEntry & 0x7fffffff);
+  if (nameEntry === undefined || !(nameEntry & 0x80000000)) return info;
+  const languageEntry = await findResourceEntry(nameEntry & 0x7fffffff);
+  if (languageEntry === undefined || languageEntry & 0x80000000) return info;
+
+  const dataEntry = await readView(resourceOffset + languageEntry, 8);
+  const versionData = await readView(
+    rvaToOffset(dataEntry.getUint32(0, true)),
+    Math.min(dataEntry.getUint32(4, true), CHUNK_SIZE)
+  );
+
+  return { ...info, versionInfo: readVersionStrings(versionData) };
+};
+
+/**
+ * Parses the PE headers and the version resource of a windows
+ * executable. Throws for files that aren't PE images, including
+ * truncated ones.
+ */
+export const parsePe = async (read: PeReader): Promise<PeInfo> => {
+  try {
+    return await readPe(read);
+  } catch (error) {
+    // Corrupt offsets read past the loaded views.
+    if (error instanceof RangeError) throw 'Not a PE file';
+    throw error;
+  }
+};
@@ -0,0 +1,53 @@
+import { PlistValue } from '@interfaces';
+
+const parseValue = (element: Element): PlistValue => {
+  const children = Array.from(element.children);
+
+  switch (element.tagName) {
+    case 'string':
+      return element.textContent || '';
+    case 'integer':
+    case 'real':
+      return Number(element.textContent);
+    case 'true':
+      return true;
+    case 'false':
+      return false;
+    case 'date':
+      return new Date(element.textContent || '');
+    case 'data':
+      return Uint8Array.from(
+        atob((element.textContent || '').replace(/\s/g, '')),
+        (char) => char.charCodeAt(0)
+      );
+    case 'array':
+      return children.map(parseValue);
+    case 'dict': {
+      const dict: { [key: string]: PlistValue | undefined } = {};
+      for (let i = 0; i < children.length; i += 2) {
+        if (children[i].tagName !== 'key' || !children[i + 1])
+          throw `Invalid plist dict at key ${children[i].textContent}`;
+        dict[children[i].textContent || ''] = parseValue(children[i + 1]);
+      }
+      return dict;
+    }
+    default:
+      throw `Unsupported plist element <${element.tagName}>`;
+  }
+};
+
+/**
+ * Parses an XML property list document. Data values are decoded
+ * into bytes.
+ */
+export const parsePlist = (data: string) => {
+  const document = new DOMParser().parseFromString(data, 'text/xml');
+  const root = document.documentElement;
+
+  if (document.getElementsByTagName('parsererror').length)
+    throw 'Plist is not valid XML';
+  if (root.tagName !== 'plist' || !root.firstElementChild)
+    throw 'Plist root element not found';
+
+  return parseValue(root.firstElementChild);
+};
@@ -0,0 +1,15 @@
+import { migrateWineAppConfig } from '@utils';
+
+/**
+ * Parses the config.json content, upgrading it to the current schema.
+ */
+export const parseWineAppConfig = (data: string) => {
+  let config: unknown;
+  try {
+    config = JSON.parse(data);
+  } catch (error) {
+    throw `config.json is corrupt: ${(error as Error).message}`;
+  }
+
+  return migrateWineAppConfig(config);
+};
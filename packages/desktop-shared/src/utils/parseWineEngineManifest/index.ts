@@ -0,0 +1,33 @@
+import { WineEngineManifest } from '@interfaces';
+
+const CHECKSUM_REGEX = /^[a-f0-9]{64}$/i;
+
+/**
+ * Parses the wine engines manifest content. Engines are only
+ * downloadable with an archive url, size and SHA-256 checksum,
+ * the rest are listed without url, so they're imported instead.
+ */
+export const parseWineEngineManifest = (data: string): WineEngineManifest => {
+  let manifest: Partial<WineEngineManifest>;
+  try {
+    manifest = JSON.parse(data);
+  } catch (error) {
+    throw `Wine engines manifest is corrupt: ${(error as Error).message}`;
+  }
+  if (!Array.isArray(manifest?.engines))
+    throw 'Wine engines manifest has no engines list';
+
+  return {
+    engines: manifest.engines.map(({ version, url, size, checksum }) => {
+      if (!version) throw 'Wine engines manifest has an engine without version';
+
+      const downloadable =
+        /^https?:\/\//.test(url || '') &&
+        Number.isInteger(size) &&
+        (size || 0) > 0 &&
+        CHECKSUM_REGEX.test(checksum || '');
+
+      return downloadable ? { version, url, size, checksum } : { version };
+    }),
+  };
+};
@@ -0,0 +1,44 @@
+import { ExecutableCandidate } from '@interfaces';
+
+/**
+ * Scores the candidates by how likely they are the app main
+ * executable, best first. Start Menu shortcuts weigh the most,
+ * since installers create them for the programs users launch.
+ */
+export const rankExecutables = (
+  candidates: ExecutableCandidate[],
+  appName: string = ''
+) => {
+  const appNameTokens = appName.toLowerCase().match(/[a-z0-9]{3,}/g) || [];
+
+  const score = (candidate: ExecutableCandidate) => {
+    const path = candidate.path.toLowerCase();
+    const productName = (
+      candidate.peInfo?.versionInfo?.productName || ''
+    ).toLowerCase();
+    let score = candidate.category === 'app' ? 50 : -50;
+
+    if (candidate.shortcuts.length) score += 40;
+    if (candidate.peInfo?.subsystem === 'gui') score += 20;
+    if (candidate.peInfo?.subsystem === 'console') score -= 10;
+    if (candidate.peInfo?.is64Bit) score += 2;
+    if (path.includes('/program files')) score += 10;
+    if (/\/(temp|tmp)\//.test(path)) score -= 30;
+    if (
+      appNameTokens.some(
+        (token) =>
+          candidate.fileName.toLowerCase().includes(token) ||
+          productName.includes(token)
+      )
+    )
+      score += 15;
+    // Main executables are usually near the install folder root.
+    score -= 2 * Math.max(path.split('/').length - 5, 0);
+
+    return score;
+  };
+
+  return candidates
+    .map((candidate) => ({ ...candidate, score: score(candidate) }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+};
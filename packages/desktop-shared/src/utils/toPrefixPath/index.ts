@@ -0,0 +1,10 @@
+/**
+ * Maps a windows path, e.g. C:\Program Files\App\app.exe, to a path
+ * relative to the prefix folder, e.g. /drive_c/Program Files/App/app.exe
+ */
+export const toPrefixPath = (windowsPath: string) => {
+  const [, drive = 'c', path = windowsPath] =
+    windowsPath.match(/^([A-Za-z]):(.*)$/) || [];
+
+  return `/drive_${drive.toLowerCase()}${path.replace(/\\/g, '/')}`;
+};
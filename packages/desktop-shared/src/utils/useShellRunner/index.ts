@@ -1,4 +1,4 @@
-import { Command } from '@tauri-apps/api/shell';
+import { Child, Command } from '@tauri-apps/api/shell';
 import { createSignal } from 'solid-js';
 import {
   CommandOptions,
@@ -7,10 +7,18 @@ import {
   ScriptOptions,
   BashScript,
   Cmd,
+  JobStep,
+  StepOutputs,
 } from '@interfaces';
 import { createStore } from 'solid-js/store';
 import { useAppModel } from '@models';
 import { APP_MODE } from 'www-shared';
+import { getJobId, getJobLevels } from '@utils';
+
+/**
+ * Scripts report byte progress by printing ::progress::<loaded>/<total> lines.
+ */
+const PROGRESS_REGEX = /^::progress::(\d+)\/(\d+)$/;
 
 export const useShellRunner = (config?: CommandOptions) => {
   const appModel = useAppModel();
@@ -30,108 +38,372 @@ export const useShellRunner = (config?: CommandOptions) => {
   /**
    * Executes a pipeline workflow.
    */
-  const buildPipeline = (workflow: Workflow, options?: { env?: Env }) => {
+  const buildPipeline = (
+    workflow: Workflow,
+    options?: {
+      env?: Env;
+      onFinish?: (workflow: Workflow, log: string) => void;
+    }
+  ) => {
     mergeEnv(options?.env);
     const [currentWorkflow, setCurrentWorkflow] =
       createStore<Workflow>(workflow);
     const [output, setOutput] = createSignal<string>('');
+    const children = new Set<Child>();
+    let running = false;
+    let cancelled = false;
+
+    /**
+     * Jobs with an if predicate keep running after a cancel,
+     * e.g. for rolling back the changes of the cancelled ones.
+     */
+    const isCancelled = (i: number) => cancelled && !currentWorkflow.jobs[i].if;
+
+    /**
+     * Runs a step attempt and waits until its processes are closed.
+     * Processes still running after the step timeout are killed.
+     */
+    const runAttempt = async (i: number, j: number, attempt: number) => {
+      const step = currentWorkflow.jobs[i].steps[j];
+      const attemptChildren = new Set<Child>();
+      let timedOut = false;
 
-    const run = async () => {
-      setCurrentWorkflow('status', 'pending');
-      let currentJob = 0;
-      let currentStep = 0;
+      setCurrentWorkflow('jobs', i, 'steps', j, 'output', '');
+      setCurrentWorkflow('jobs', i, 'steps', j, 'attempts', attempt, {
+        status: 'inProgress',
+        output: '',
+      });
+
+      const timeout =
+        step.options?.timeoutMs &&
+        setTimeout(() => {
+          timedOut = true;
+          attemptChildren.forEach((child) =>
+            killProcess(child).catch(console.error)
+          );
+        }, step.options.timeoutMs);
 
       try {
-        for (let i = 0; i < currentWorkflow.jobs.length; i++) {
-          currentJob = i;
-          const job = currentWorkflow.jobs[i];
-          const steps = job.steps;
-          for (let j = 0; j < steps.length; j++) {
-            currentStep = j;
-            setCurrentWorkflow('jobs', i, 'steps', j, 'status', 'inProgress');
-            const step = steps[j];
-
-            if (
-              step.bashScript === undefined &&
-              step.script === undefined &&
-              step.fn === undefined
-            )
-              continue;
-
-            setCurrentWorkflow('jobs', i, 'steps', j, 'output', '');
-
-            let runningProcesses = [
-              step.script && (await spawnScript(step.script, step.options)),
-              step.bashScript &&
-                (await spawnBashScript(step.bashScript, step.options)),
-              step.fn && (await step.fn()),
-            ];
-
-            for (let runningProcess of runningProcesses) {
-              if (!runningProcess) continue;
-              const { cmd } = runningProcess;
-
-              const onData = (data: string) => {
-                setOutput((prev) => `${prev || ''}\n${data}`);
-                setCurrentWorkflow(
-                  'jobs',
-                  i,
-                  'steps',
-                  j,
-                  'output',
-                  (prev) => `${prev || ''}\n${data}`
-                );
-              };
-
-              cmd.stderr.on('data', onData);
-              cmd.stdout.on('data', onData);
-
-              await new Promise((resolve, reject) => {
-                cmd.on('close', (data) => {
-                  if (!step.options?.force && data.code !== 0) {
-                    reject(`Status code error ${data.code}`);
-                  } else {
-                    resolve(
-                      setCurrentWorkflow(
-                        'jobs',
-                        i,
-                        'steps',
-                        j,
-                        'status',
-                        'success'
-                      )
-                    );
-                  }
-                });
+        let runningProcesses = [
+          step.script && (await spawnScript(step.script, step.options)),
+          step.bashScript &&
+            (await spawnBashScript(step.bashScript, step.options)),
+          step.fn && (await step.fn()),
+        ];
+
+        for (let runningProcess of runningProcesses) {
+          if (!runningProcess) continue;
+          const { cmd, child } = runningProcess;
+          if (!currentWorkflow.jobs[i].if) children.add(child);
+          attemptChildren.add(child);
+          if (timedOut) killProcess(child).catch(console.error);
+
+          const onData = (data: string) => {
+            const progress = data.match(PROGRESS_REGEX);
+            if (progress) {
+              setCurrentWorkflow('jobs', i, 'steps', j, 'progress', {
+                loaded: Number(progress[1]),
+                total: Number(progress[2]),
               });
+              return;
             }
-          }
-        }
 
-        setCurrentWorkflow('status', 'success');
-      } catch (error) {
-        for (let i = currentJob; i < currentWorkflow.jobs.length; i++) {
-          const job = currentWorkflow.jobs[i];
-          const steps = job.steps;
-          for (let j = currentStep; j < steps.length; j++) {
+            setOutput((prev) => `${prev || ''}\n${data}`);
+            setCurrentWorkflow(
+              'jobs',
+              i,
+              'steps',
+              j,
+              'output',
+              (prev) => `${prev || ''}\n${data}`
+            );
             setCurrentWorkflow(
               'jobs',
               i,
               'steps',
               j,
-              'status',
-              j >= currentStep + 1 ? 'cancelled' : 'error'
+              'attempts',
+              attempt,
+              'output',
+              (prev) => `${prev || ''}\n${data}`
+            );
+          };
+
+          cmd.stderr.on('data', onData);
+          cmd.stdout.on('data', onData);
+
+          await new Promise((resolve, reject) => {
+            cmd.on('close', (data) => {
+              children.delete(child);
+              attemptChildren.delete(child);
+              setCurrentWorkflow('jobs', i, 'steps', j, 'exitCode', data.code);
+              if (isCancelled(i)) {
+                reject('Step cancelled');
+              } else if (timedOut) {
+                reject(`Step timed out after ${step.options?.timeoutMs}ms`);
+              } else if (!step.options?.force && data.code !== 0) {
+                reject(`Status code error ${data.code}`);
+              } else {
+                resolve(data.code);
+              }
+            });
+          });
+        }
+
+        // Forced steps resolve on any exit code, even when killed.
+        if (isCancelled(i)) throw 'Step cancelled';
+        setCurrentWorkflow('jobs', i, 'steps', j, 'attempts', attempt, {
+          status: 'success',
+        });
+      } catch (error) {
+        setCurrentWorkflow('jobs', i, 'steps', j, 'attempts', attempt, {
+          status: isCancelled(i) ? 'cancelled' : 'error',
+        });
+        throw error;
+      } finally {
+        timeout && clearTimeout(timeout);
+      }
+    };
+
+    /**
+     * Runs a single step, retrying failed attempts
+     * as many times as the step options allow.
+     */
+    const runStep = async (i: number, j: number) => {
+      setCurrentWorkflow('jobs', i, 'steps', j, 'status', 'inProgress');
+      const step = currentWorkflow.jobs[i].steps[j];
+
+      if (
+        step.bashScript === undefined &&
+        step.script === undefined &&
+        step.fn === undefined
+      ) {
+        setCurrentWorkflow('jobs', i, 'steps', j, 'status', 'success');
+        return;
+      }
+
+      setCurrentWorkflow('jobs', i, 'steps', j, {
+        attempts: [],
+        exitCode: undefined,
+        progress: undefined,
+        startedAt: Date.now(),
+        endedAt: undefined,
+      });
+      const retries = step.options?.retries || 0;
+
+      try {
+        for (let attempt = 0; ; attempt++) {
+          try {
+            await runAttempt(i, j, attempt);
+            setCurrentWorkflow('jobs', i, 'steps', j, 'status', 'success');
+            return;
+          } catch (error) {
+            if (isCancelled(i) || attempt >= retries) throw error;
+            await new Promise((resolve) =>
+              setTimeout(resolve, step.options?.retryDelayMs || 0)
             );
+            if (isCancelled(i)) throw error;
           }
-          setCurrentWorkflow(
-            'status',
-            i >= currentJob + 1 ? 'cancelled' : 'error'
-          );
+        }
+      } finally {
+        setCurrentWorkflow('jobs', i, 'steps', j, 'endedAt', Date.now());
+      }
+    };
+
+    /**
+     * Updates the status of the job steps starting at the given index.
+     */
+    const setStepsStatus = (
+      jobIndex: number,
+      stepIndex: number,
+      status: JobStep['status']
+    ) => {
+      const steps = currentWorkflow.jobs[jobIndex].steps;
+      for (let j = stepIndex; j < steps.length; j++) {
+        setCurrentWorkflow('jobs', jobIndex, 'steps', j, 'status', status);
+      }
+    };
+
+    /**
+     * Collects the output of the identified steps, used by
+     * the steps if predicates.
+     */
+    const collectOutputs = () => {
+      const outputs: StepOutputs = {};
+      for (const job of currentWorkflow.jobs) {
+        for (const step of job.steps) {
+          if (step.id) outputs[step.id] = step.output;
         }
       }
+
+      return outputs;
+    };
+
+    /**
+     * Runs the job steps starting at the given index.
+     */
+    const runJob = async (i: number, stepIndex: number) => {
+      setCurrentWorkflow('jobs', i, 'status', 'inProgress');
+      let currentStep = stepIndex;
+
+      try {
+        const steps = currentWorkflow.jobs[i].steps;
+        for (let j = stepIndex; j < steps.length; j++) {
+          currentStep = j;
+          if (isCancelled(i)) throw 'Workflow cancelled';
+          if (steps[j].if?.(collectOutputs()) === false) {
+            setCurrentWorkflow('jobs', i, 'steps', j, 'status', 'skipped');
+            continue;
+          }
+          await runStep(i, j);
+        }
+
+        setCurrentWorkflow('jobs', i, 'status', 'success');
+      } catch (error) {
+        const status = isCancelled(i) ? 'cancelled' : 'error';
+        setCurrentWorkflow('jobs', i, 'steps', currentStep, 'status', status);
+        setStepsStatus(i, currentStep + 1, 'cancelled');
+        setCurrentWorkflow('jobs', i, 'status', status);
+        throw error;
+      }
+    };
+
+    /**
+     * Runs the workflow jobs as a dependency graph. Every job waits
+     * for the jobs it needs, so independent jobs run concurrently.
+     * Jobs with an if predicate run when it passes, even after a
+     * needed job failed or the workflow was cancelled, e.g. for
+     * rolling back changes.
+     * Jobs found in positions start at the given step, the rest of
+     * successful jobs keep their status and output.
+     */
+    const runFrom = async (positions: Record<number, number>) => {
+      if (running) return;
+      running = true;
+      cancelled = false;
+      const outputStart = output().length;
+      setCurrentWorkflow({
+        status: 'pending',
+        error: undefined,
+        startedAt: Date.now(),
+        endedAt: undefined,
+      });
+
+      for (const [i, j] of Object.entries(positions)) {
+        setCurrentWorkflow('jobs', Number(i), 'status', 'pending');
+        setStepsStatus(Number(i), j, 'pending');
+      }
+
+      const jobs = currentWorkflow.jobs;
+      const promises: Array<Promise<void>> = [];
+      const runNode = (i: number): Promise<void> => {
+        promises[i] ??= (async () => {
+          const needs = (jobs[i].needs || []).map((id) =>
+            jobs.findIndex((job) => getJobId(job) === id)
+          );
+          const results = await Promise.allSettled(needs.map(runNode));
+          const job = jobs[i];
+
+          if (job.if) {
+            if (!job.if(needs.map((n) => jobs[n]))) {
+              setCurrentWorkflow('jobs', i, 'status', 'skipped');
+              setStepsStatus(i, 0, 'skipped');
+              return;
+            }
+          } else if (results.some((result) => result.status === 'rejected')) {
+            setCurrentWorkflow('jobs', i, 'status', 'cancelled');
+            setStepsStatus(i, 0, 'cancelled');
+            throw `Job ${job.name} needs a failed job`;
+          }
+
+          if (positions[i] !== undefined) await runJob(i, positions[i]);
+        })();
+
+        return promises[i];
+      };
+
+      try {
+        getJobLevels(jobs);
+        const results = await Promise.allSettled(
+          jobs.map((_, i) => runNode(i))
+        );
+        const failed = results.some((result) => result.status === 'rejected');
+        setCurrentWorkflow(
+          'status',
+          !failed ? 'success' : cancelled ? 'cancelled' : 'error'
+        );
+      } catch (error) {
+        console.error(error);
+        setCurrentWorkflow({ status: 'error', error: `${error}` });
+      } finally {
+        running = false;
+        setCurrentWorkflow('endedAt', Date.now());
+        options?.onFinish?.(currentWorkflow, output().slice(outputStart));
+      }
+    };
+
+    /**
+     * Builds the start positions of the unfinished jobs.
+     */
+    const unfinishedPositions = () => {
+      const positions: Record<number, number> = {};
+      currentWorkflow.jobs.forEach((job, i) => {
+        if (job.status === 'success') return;
+        const j = job.steps.findIndex(
+          (step) => step.status !== 'success' && step.status !== 'skipped'
+        );
+        positions[i] = Math.max(j, 0);
+      });
+
+      return positions;
+    };
+
+    /**
+     * Runs the whole workflow.
+     */
+    const run = () => {
+      const positions: Record<number, number> = {};
+      currentWorkflow.jobs.forEach((_, i) => (positions[i] = 0));
+      return runFrom(positions);
     };
 
-    return { currentWorkflow, output, run };
+    /**
+     * Re-runs the workflow from the given step, along with
+     * the rest of unfinished jobs.
+     */
+    const retryStep = (jobIndex: number, stepIndex: number) => {
+      return runFrom({ ...unfinishedPositions(), [jobIndex]: stepIndex });
+    };
+
+    /**
+     * Re-runs the unfinished jobs from their failed steps.
+     */
+    const resume = () => {
+      return runFrom(unfinishedPositions());
+    };
+
+    /**
+     * Stops the running workflow, killing the spawned processes
+     * and skipping the remaining steps. Programs started by wine
+     * are reparented to the wineserver, so it's killed as well.
+     */
+    const cancel = async () => {
+      if (!running) return;
+      cancelled = true;
+      await Promise.all(
+        [...children].map((child) => killProcess(child).catch(console.error))
+      );
+      await executeBashScript('killWineProcesses').catch(console.error);
+    };
+
+    return { currentWorkflow, output, run, resume, retryStep, cancel };
+  };
+
+  /**
+   * Kills a spawned process along with its whole process tree.
+   */
+  const killProcess = async (child: Child) => {
+    await executeBashScript('killProcessTree', { args: `${child.pid}` });
   };
 
   /**
@@ -181,15 +453,20 @@ export const useShellRunner = (config?: CommandOptions) => {
   };
 
   /**
-   * Builds the env vars passed to the command.
+   * Builds the env vars exported to the command.
+   * Values are single quoted, so characters like ; or spaces
+   * used by WINEDLLOVERRIDES don't break the command.
+   * Empty values are skipped, so they don't override the shell ones.
    */
   const buildEnvVarsCmd = () => {
     let exports = '';
     for (const [VAR, VALUE] of Object.entries(env)) {
-      exports += `${VAR}=${VALUE} `;
+      if (VALUE === undefined || VALUE === '') continue;
+      const value = `${VALUE}`.replace(/'/g, `'\\''`);
+      exports += `${VAR}='${value}' `;
     }
 
-    return exports;
+    return exports && `export ${exports};`;
   };
 
   /**
@@ -248,9 +525,11 @@ export const useShellRunner = (config?: CommandOptions) => {
 
   return {
     buildPipeline,
+    killProcess,
     spawnBashScript,
     executeBashScript,
     executeScript,
+    spawnScript,
     mergeEnv,
   };
 };
@@ -1,18 +1,36 @@
-import { useShellRunner } from '@utils';
 import {
+  buildInfoPlist,
+  classifyExecutable,
+  getSetupInputType,
+  mapPeVersionInfo,
+  mapShortcutExecutable,
+  mapWrapperVersion,
+  useShellRunner,
+} from '@utils';
+import {
+  Env,
+  Job,
   JobStep,
   WineApp,
   WineAppExecutable,
+  WineEngine,
+  WineProcess,
   WinetricksOptions,
+  Workflow,
 } from '@interfaces';
-import { useAppModel } from '@models';
+import { useExecutableApiClient, useWineAppApiClient } from '@api-clients';
+import { useAppModel, useWorkflowRunModel } from '@models';
+import { WINE_APP_SCHEMA_VERSION } from '@constants';
 import { Select, SelectProps, useDialogContext, withOwner } from 'www-shared';
 import { createSignal } from 'solid-js';
-import { readTextFile } from '@tauri-apps/api/fs';
 
 export const useWineApp = () => {
   const appModel = useAppModel();
   const appEnv = appModel.selectEnv();
+  const workflowRunModel = useWorkflowRunModel();
+  const executableApiClient = useExecutableApiClient();
+  const wineAppApiClient = useWineAppApiClient();
+  let appName = '';
 
   const { buildPipeline, spawnBashScript, executeBashScript, mergeEnv } =
     useShellRunner();
@@ -24,6 +42,7 @@ export const useWineApp = () => {
     const HOME = appEnv().HOME;
     const WINE_APP_NAME = config.name;
     const WINE_ENGINE_VERSION = config.engine.version;
+    appName = WINE_APP_NAME;
 
     mergeEnv({
       HOME,
@@ -32,63 +51,490 @@ export const useWineApp = () => {
     });
   };
 
+  /**
+   * Wrapper workflows are run by the embedded config app, whose
+   * bash scripts are placed inside the app bundle.
+   */
+  const getAppName = () =>
+    appName ||
+    appEnv().BASH_SCRIPTS_PATH.match(/([^/]+)\.app\/config-app\.app\//)?.[1] ||
+    '';
+
+  /**
+   * Stores the finished workflow and its log inside the app.
+   */
+  const saveWorkflowRun = async (
+    workflow: Workflow,
+    log: string,
+    name = getAppName()
+  ) => {
+    try {
+      await workflowRunModel.create(
+        { id: `${workflow.startedAt}`, appName: name, workflow },
+        log
+      );
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
   /**
    * Creates a copy of the wine version from the engine
    * for the app to work standalone.
    */
-  const create = (config: WineApp) => {
+  const create = (
+    config: WineApp,
+    options?: { onFinish?: (workflow: Workflow) => void }
+  ) => {
     //Initializes app env variables
     buildAppEnv(config);
+    const setup = buildSetupSteps(config);
+
+    const workflow: Workflow = {
+      name: 'Create wine app - Workflow',
+      jobs: [
+        buildDownloadEngineJob(config.engine),
+        {
+          id: 'app',
+          name: 'Create wine app - Job',
+          steps: [
+            {
+              name: 'Creating wine app',
+              fn: () => scaffoldApp(config),
+            },
+          ],
+        },
+        {
+          id: 'prefix',
+          name: 'Configure wine prefix - Job',
+          needs: ['app', 'engine'],
+          steps: [
+            {
+              name: 'Extracting wine engine',
+              bashScript: 'extractWineEngine',
+              options: { timeoutMs: 10 * 60 * 1000 },
+            },
+            ...buildPrefixSteps(config),
+          ],
+        },
+        {
+          id: 'setup',
+          name: 'Install and bundle app - Job',
+          needs: ['prefix'],
+          steps: [
+            ...setup.steps,
+            {
+              name: 'Bundling app',
+              fn: () => bundleApp(config),
+            },
+            {
+              name: 'Registering Start Menu shortcuts',
+              fn: () => registerShortcuts(),
+            },
+          ],
+        },
+      ],
+    };
 
+    const pipeline = buildPipeline(workflow, {
+      onFinish: (workflow, log) => {
+        saveWorkflowRun(workflow, log);
+        setup.removeSetupArchive().catch(console.error);
+        options?.onFinish?.(workflow);
+      },
+    });
+
+    const runningProcess = pipeline.run();
+    return { ...pipeline, runningProcess };
+  };
+
+  /**
+   * Steps for generating the prefix with the config DXVK flag
+   * and winetricks verbs. The DXVK step is skipped when it's disabled.
+   */
+  const buildPrefixSteps = (config: WineApp): JobStep[] => {
     const winetricksSteps = generateWinetricksSteps(
       config?.winetricks?.verbs,
       config?.winetricks?.options
     );
 
-    const dxvkStep: JobStep = {
-      name: 'Configuring DXVK',
-      bashScript: 'enableDxvk',
-      options: { force: true }, //Skips warning ./dxvk_macos.verb: No such file or directory,
-    };
+    return [
+      {
+        name: 'Generating wine prefix',
+        bashScript: 'wineboot',
+        options: { timeoutMs: 10 * 60 * 1000 },
+      },
+      {
+        name: 'Configuring DXVK',
+        bashScript: 'enableDxvk',
+        if: () => Boolean(config?.dxvkEnabled),
+        options: {
+          force: true, //Skips warning ./dxvk_macos.verb: No such file or directory,
+          timeoutMs: 10 * 60 * 1000,
+        },
+      },
+      ...winetricksSteps,
+    ];
+  };
 
-    const { currentWorkflow, output, run } = buildPipeline({
-      name: 'Create wine app - Workflow',
+  /**
+   * Job for downloading the engine into the engines folder.
+   * Already stored engines are skipped by the script.
+   */
+  const buildDownloadEngineJob = (engine: WineEngine): Job => ({
+    id: 'engine',
+    name: 'Download wine engine - Job',
+    steps: [
+      {
+        name: 'Downloading wine engine',
+        bashScript: 'downloadWineEngine',
+        options: {
+          env: {
+            WINE_ENGINE_URL: engine.url,
+            WINE_ENGINE_CHECKSUM: engine.checksum,
+            WINE_ENGINE_SIZE: engine.size,
+          },
+          retries: 2, //Partial downloads are resumed on retry
+          retryDelayMs: 5000,
+          timeoutMs: 60 * 60 * 1000,
+        },
+      },
+    ],
+  });
+
+  /**
+   * Replaces the app engine and upgrades the prefix with it.
+   * The previous engine is backed up and restored if any step fails.
+   */
+  const changeEngine = (
+    engine: WineEngine,
+    saveEngine: (engine: WineEngine) => Promise<void>
+  ) => {
+    const workflow: Workflow = {
+      name: 'Change wine engine - Workflow',
       jobs: [
+        buildDownloadEngineJob(engine),
         {
-          name: 'Create wine app - Job',
+          id: 'change',
+          name: 'Change wine engine - Job',
+          needs: ['engine'],
           steps: [
             {
-              name: 'Creating wine app',
-              fn: () => scaffoldApp(config),
+              name: 'Backing up current wine engine',
+              bashScript: 'backupWineEngine',
             },
             {
               name: 'Extracting wine engine',
               bashScript: 'extractWineEngine',
             },
             {
-              name: 'Generating wine prefix',
-              bashScript: 'wineboot',
+              name: 'Upgrading wine prefix',
+              bashScript: 'wine',
+              options: { args: 'wineboot -u' },
             },
-            ...(config?.dxvkEnabled ? [dxvkStep] : []),
-            ...winetricksSteps,
             {
-              name: 'Running setup executable',
-              bashScript: 'wine',
-              options: {
-                args: `${config.setupExecutablePath}`,
-              },
+              id: 'config',
+              name: 'Updating app config',
+              fn: () => saveEngine(engine),
             },
             {
-              name: 'Bundling app',
-              fn: () => bundleApp(config),
+              name: 'Removing wine engine backup',
+              bashScript: 'removeWineEngineBackup',
+              options: { force: true }, //The engine is already changed
+            },
+          ],
+        },
+        {
+          id: 'rollback',
+          name: 'Rollback wine engine - Job',
+          needs: ['change'],
+          if: ([change]) =>
+            (change.status === 'error' || change.status === 'cancelled') &&
+            change.steps.find((step) => step.id === 'config')?.status !==
+              'success', //The config keeps the new engine
+          steps: [
+            {
+              name: 'Restoring previous wine engine',
+              bashScript: 'restoreWineEngine',
+            },
+          ],
+        },
+      ],
+    };
+
+    const pipeline = buildPipeline(workflow, {
+      env: { WINE_ENGINE_VERSION: engine.version },
+      onFinish: saveWorkflowRun,
+    });
+
+    /**
+     * Once rolled back, the backup is gone and the change
+     * can't be resumed.
+     */
+    const assertNotRolledBack = () => {
+      const { status } = pipeline.currentWorkflow.jobs[2];
+      if (status && status !== 'pending' && status !== 'skipped') {
+        throw 'The wine engine change was rolled back, start it again';
+      }
+    };
+
+    const runningProcess = pipeline.run();
+    return {
+      ...pipeline,
+      runningProcess,
+      retryStep: async (jobIndex: number, stepIndex: number) => {
+        assertNotRolledBack();
+        return pipeline.retryStep(jobIndex, stepIndex);
+      },
+      resume: async () => {
+        assertNotRolledBack();
+        return pipeline.resume();
+      },
+    };
+  };
+
+  /**
+   * Re-extracts the config app, bash scripts and frameworks
+   * into the app, without touching the prefix.
+   */
+  const refresh = () => {
+    const workflow: Workflow = {
+      name: 'Refresh wrapper - Workflow',
+      jobs: [
+        {
+          name: 'Refresh wrapper - Job',
+          steps: [
+            {
+              name: 'Extracting config app and bash scripts',
+              bashScript: 'extractConfigApp',
+            },
+            {
+              name: 'Extracting frameworks',
+              bashScript: 'extractFrameworks',
+            },
+          ],
+        },
+      ],
+    };
+
+    const pipeline = buildPipeline(workflow, { onFinish: saveWorkflowRun });
+
+    const runningProcess = pipeline.run();
+    return { ...pipeline, runningProcess };
+  };
+
+  /**
+   * Recreates the whole wrapper from the app config into a fresh prefix.
+   * The user data folders, relative to drive_c, are moved aside and
+   * restored even if the rebuild fails.
+   */
+  const rebuild = (config: WineApp, userDataFolders: string[] = []) => {
+    const workflow: Workflow = {
+      name: 'Rebuild wrapper - Workflow',
+      jobs: [
+        buildDownloadEngineJob(config.engine),
+        {
+          id: 'rebuild',
+          name: 'Rebuild wrapper - Job',
+          needs: ['engine'],
+          steps: [
+            {
+              name: 'Backing up user data',
+              bashScript: 'backupUserData',
+            },
+            {
+              name: 'Removing wine engine and prefix',
+              bashScript: 'resetWrapper',
+            },
+            {
+              name: 'Extracting config app and bash scripts',
+              bashScript: 'extractConfigApp',
+            },
+            {
+              name: 'Extracting frameworks',
+              bashScript: 'extractFrameworks',
+            },
+            {
+              name: 'Extracting wine engine',
+              bashScript: 'extractWineEngine',
+            },
+            ...buildPrefixSteps(config),
+          ],
+        },
+        {
+          id: 'userData',
+          name: 'Restore user data - Job',
+          needs: ['rebuild'],
+          if: () => true, //Also after a cancel, so user data isn't left at the backup
+          steps: [
+            {
+              name: 'Restoring user data',
+              bashScript: 'restoreUserData',
             },
           ],
         },
       ],
+    };
+
+    const pipeline = buildPipeline(workflow, {
+      env: {
+        WINE_ENGINE_VERSION: config.engine.version,
+        WINE_APP_USER_DATA: userDataFolders.join('\n'),
+      },
+      onFinish: saveWorkflowRun,
     });
 
-    const runningProcess = run();
-    return { currentWorkflow, output, runningProcess };
+    const runningProcess = pipeline.run();
+    return { ...pipeline, runningProcess };
+  };
+
+  /**
+   * Compares the wrapper config app with the one at the wrapper archives.
+   */
+  const getWrapperVersion = async () => {
+    const { code, stdout, stderr } = await executeBashScript(
+      'getConfigAppVersions'
+    );
+    if (code !== 0) throw stderr || 'Config app version not found';
+    return mapWrapperVersion(stdout);
+  };
+
+  /**
+   * Job for replacing the wrapper config app in place. The app
+   * config.json is kept and migrated to the current format.
+   */
+  const buildUpdateJob = (
+    name: string,
+    migrateConfig: () => Promise<void>,
+    env?: Env
+  ): Job => ({
+    id: name,
+    name: `Update ${name} - Job`,
+    steps: [
+      {
+        name: 'Extracting config app and bash scripts',
+        bashScript: 'extractConfigApp',
+        options: { env },
+      },
+      {
+        name: 'Migrating app config',
+        fn: migrateConfig,
+      },
+    ],
+  });
+
+  /**
+   * Updates the config app of the current wrapper.
+   */
+  const update = (migrateConfig: () => Promise<void>) => {
+    const workflow: Workflow = {
+      name: 'Update wrapper - Workflow',
+      jobs: [buildUpdateJob('wrapper', migrateConfig)],
+    };
+
+    const pipeline = buildPipeline(workflow, { onFinish: saveWorkflowRun });
+
+    const runningProcess = pipeline.run();
+    return { ...pipeline, runningProcess };
+  };
+
+  /**
+   * Updates the config app of the given library wrappers.
+   */
+  const updateAll = (
+    apps: Array<{ name: string; migrateConfig: () => Promise<void> }>
+  ) => {
+    const workflow: Workflow = {
+      name: 'Update wrappers - Workflow',
+      jobs: apps.map((app) =>
+        buildUpdateJob(app.name, app.migrateConfig, {
+          WINE_APP_NAME: app.name,
+        })
+      ),
+    };
+
+    const pipeline = buildPipeline(workflow, {
+      onFinish: (workflow, log) =>
+        apps.forEach((app) => saveWorkflowRun(workflow, log, app.name)),
+    });
+
+    const runningProcess = pipeline.run();
+    return { ...pipeline, runningProcess };
+  };
+
+  /**
+   * Setup archives are extracted first, and the installer to run
+   * is picked from the archive contents. The temp folder is kept
+   * until the setup succeeds or the workflow finishes, and it's
+   * extracted again when a retry finds it removed.
+   */
+  const buildSetupSteps = (config: WineApp) => {
+    const isArchive =
+      getSetupInputType(config.setupExecutablePath) === 'archive';
+    let setupPath = config.setupExecutablePath;
+    let tmpPath = '';
+
+    const removeSetupArchive = async () => {
+      if (!tmpPath) return;
+      const { code, stderr } = await executeBashScript('removeSetupArchive', {
+        env: { WINE_APP_SETUP_TMP_PATH: tmpPath },
+      });
+      if (code !== 0) throw stderr || 'The setup archive could not be removed';
+      tmpPath = '';
+    };
+
+    /**
+     * The installer picked at a previous extraction is kept.
+     */
+    const extractSetupArchive = async () => {
+      const pickedFile = setupPath.slice(tmpPath.length);
+      await removeSetupArchive();
+      const { code, stdout, stderr } = await executeBashScript(
+        'extractSetupArchive',
+        {
+          env: { WINE_APP_SETUP_ARCHIVE_PATH: config.setupExecutablePath },
+        }
+      );
+      if (code !== 0)
+        throw stderr || 'The setup archive could not be extracted';
+
+      const [folder, ...files] = stdout.split('\n').filter(Boolean);
+      tmpPath = folder;
+      if (!files.length) throw 'No installer found inside the setup archive';
+      setupPath =
+        files.find((file) => file === `${folder}${pickedFile}`) ||
+        (files.length > 1 && (await selectSetupFile(folder, files))) ||
+        files[0];
+    };
+
+    const runStep: JobStep = {
+      name: 'Running setup executable',
+      fn: async () => {
+        if (isArchive && !tmpPath) await extractSetupArchive();
+        const runningProcess = await spawnBashScript('runSetup', {
+          env: {
+            WINE_APP_SETUP_PATH: setupPath,
+            WINE_APP_SETUP_TMP_PATH: tmpPath,
+          },
+        });
+        //runSetup.sh removes the temp folder once the setup succeeds
+        runningProcess.cmd.on('close', ({ code }) => {
+          if (code === 0) tmpPath = '';
+        });
+        return runningProcess;
+      },
+      options: { timeoutMs: 2 * 60 * 60 * 1000 }, //Setups wait for the user
+    };
+
+    return {
+      steps: isArchive
+        ? [
+            { name: 'Extracting setup archive', fn: extractSetupArchive },
+            runStep,
+          ]
+        : [runStep],
+      removeSetupArchive,
+    };
   };
 
   /**
@@ -107,41 +553,51 @@ export const useWineApp = () => {
    * Bundles the app with main executable
    */
   const bundleApp = async (config: WineApp) => {
-    const infoPlist = await buildInfoPlist();
     const executable = await selectExecutable();
-    const { cmd, child } = await spawnBashScript('bundleApp');
+    const { cmd, child } = await spawnBashScript('bundleApp', {
+      env: {
+        WINE_APP_INFO_PLIST: buildInfoPlist(
+          mapPeVersionInfo(appName, executable?.versionInfo)
+        ),
+      },
+    });
     const { addExecutable, getConfigAsString } = configFileHandler(config);
     addExecutable(executable);
-    child.write(`${infoPlist}\n`);
     child.write(`${getConfigAsString()}\n`);
     child.write(`${executable.path}\n`);
     return { cmd, child };
   };
 
   /**
-   * Builds info plist file
+   * Start Menu shortcuts are added to the app executables, with the
+   * flags and working dir set by the installer. Shortcuts to an
+   * executable already registered without flags complete it.
    */
-  const buildInfoPlist = async (
-    args: {
-      CFBundleExecutable?: string;
-      CFBundleIconFile?: string;
-    } = {}
-  ) => {
-    args = {
-      CFBundleExecutable: 'winemacapp',
-      CFBundleIconFile: 'winemacapp.ics',
-      ...args,
-    };
-
-    let infoPlist = await readTextFile(
-      `${appEnv().STUBS_PATH}/info.plist.stub`
-    );
-
-    for (let [key, value] of Object.entries(args)) {
-      infoPlist = infoPlist.replace(new RegExp(`{{${key}}}`, 'g'), value);
+  const registerShortcuts = async () => {
+    const appPath = `${appEnv().WINE_APPS_PATH}/${appName}.app`;
+    const config = await wineAppApiClient.readConfig(appPath);
+    if (!config) throw 'config.json not found';
+
+    const executables = [...config.executables];
+    for (const shortcut of await executableApiClient.listShortcuts(appName)) {
+      if (!/\/start menu\//i.test(shortcut.path)) continue;
+      const executable = mapShortcutExecutable(shortcut);
+      if (!executable) continue;
+
+      const current = executables.find(
+        (item) =>
+          item.path.toLowerCase() === executable.path.toLowerCase() &&
+          (!item.flags || item.flags === executable.flags)
+      );
+      if (current) {
+        current.flags = current.flags || executable.flags;
+        current.cwd = current.cwd || executable.cwd;
+      } else {
+        executables.push(executable);
+      }
     }
 
-    return infoPlist.replace(/\n/g, '');
+    await wineAppApiClient.writeConfig(appPath, { ...config, executables });
   };
 
   /**
@@ -152,7 +608,8 @@ export const useWineApp = () => {
       config.executables.push(executable);
     };
 
-    const getConfigAsString = () => JSON.stringify(config);
+    const getConfigAsString = () =>
+      JSON.stringify({ ...config, schemaVersion: WINE_APP_SCHEMA_VERSION });
 
     console.log('===>', config);
 
@@ -162,22 +619,85 @@ export const useWineApp = () => {
     };
   };
 
+  /**
+   * Lists the executables installed inside the app prefix, likely
+   * main executables first. Paths are relative to the prefix folder.
+   */
+  const listExecutables = async () => {
+    const candidates = await executableApiClient.list(getAppName());
+
+    return candidates.map((candidate) => {
+      const versionInfo = candidate.peInfo?.versionInfo;
+      const details = [
+        versionInfo?.productName,
+        versionInfo?.productVersion || versionInfo?.fileVersion,
+        candidate.category !== 'app' && `(${candidate.category})`,
+      ].filter(Boolean);
+
+      return {
+        value: candidate.path,
+        label: details.length
+          ? `${candidate.fileName} - ${details.join(' ')}`
+          : candidate.fileName,
+        versionInfo,
+      };
+    });
+  };
+
+  /**
+   * Picks the installer of an extracted setup archive. Files that
+   * look like installers are listed first.
+   */
+  const selectSetupFile = withOwner(async (folder: string, files: string[]) => {
+    const { createDialog, configDialog } = useDialogContext();
+    const getRank = (file: string) => {
+      const category = classifyExecutable(file);
+      return category === 'installer' ? 0 : category === 'app' ? 1 : 2;
+    };
+    const options = [...files]
+      .sort(
+        (a, b) =>
+          getRank(a) - getRank(b) ||
+          a.split('/').length - b.split('/').length ||
+          a.localeCompare(b)
+      )
+      .map((file) => ({ value: file, label: file.replace(`${folder}/`, '') }));
+
+    return new Promise<string>((resolve) => {
+      createDialog({
+        content: ({ dialogId }) => {
+          const [setupPath, setSetupPath] = createSignal(options[0].value);
+
+          configDialog(dialogId, { onClose: () => resolve(setupPath()) });
+
+          return (
+            <Select
+              label="Setup Executable"
+              placeholder="Select the installer"
+              options={options}
+              onInput={(event) => setSetupPath(event.value)}
+              value={setupPath()}
+            />
+          );
+        },
+        acceptText: 'Select',
+      });
+    });
+  });
+
   /**
    * Application executable selector.
    */
   const selectExecutable = withOwner(async () => {
     const { createDialog, configDialog } = useDialogContext();
-    const { stdout } = await executeBashScript('listAppExecutables');
-    const executables =
-      stdout.split('\n').map((item) => ({
-        value: item.split('SharedSupport/prefix').pop() || '',
-        label: item.split('/').pop() || '',
-      })) || [];
+    const executables = await listExecutables();
 
     return new Promise<WineAppExecutable>((resolve) => {
       createDialog({
         content: ({ dialogId }) => {
-          const [executablePath, setExecutablePath] = createSignal('');
+          const [executablePath, setExecutablePath] = createSignal(
+            executables[0]?.value || ''
+          );
 
           const onInput: SelectProps['onInput'] = (event) => {
             setExecutablePath(event.value);
@@ -187,7 +707,14 @@ export const useWineApp = () => {
           };
 
           const onClose = () => {
-            resolve({ path: executablePath(), main: true, flags: '' });
+            resolve({
+              path: executablePath(),
+              main: true,
+              flags: '',
+              versionInfo: executables.find(
+                (item) => item.value === executablePath()
+              )?.versionInfo,
+            });
           };
 
           configDialog(dialogId, { onClose });
@@ -279,6 +806,9 @@ export const useWineApp = () => {
         bashScript: 'winetrick',
         options: {
           args: `${flags} ${trick}`,
+          retries: 2, //Winetricks downloads fail intermittently
+          retryDelayMs: 5000,
+          timeoutMs: 30 * 60 * 1000,
         },
       });
     }
@@ -302,20 +832,44 @@ export const useWineApp = () => {
   };
 
   /**
-   * Executes a program through wine.
+   * Executes an app executable through wine, logging its output.
+   * The executable env and working directory are scoped to its own
+   * runner, so they don't leak into the next commands.
    */
-  const runProgram = async (
-    executablePath: string,
-    exeFlags: string[] = []
-  ) => {
-    exeFlags = exeFlags?.map?.((item) => `"${item}"`);
-    await spawnBashScript('wine', {
-      args: `${executablePath} ${exeFlags}`,
+  const runProgram = (executable: WineAppExecutable) => {
+    const programRunner = useShellRunner({
+      env: { ...executable.env, WINE_APP_CWD: executable.cwd },
     });
+    return programRunner.spawnBashScript('runProgram', {
+      args: `"\${WINE_APP_PREFIX_PATH}${executable.path}" ${
+        executable.flags || ''
+      }`,
+    });
+  };
+
+  /**
+   * Kills every wine process of the app prefix through wineserver.
+   * Resolves with the processes which were terminated.
+   */
+  const killWineProcesses = async (): Promise<WineProcess[]> => {
+    const { stdout } = await executeBashScript('killWineProcesses');
+    return stdout
+      .split('\n')
+      .filter((row) => row)
+      .map((row) => {
+        const [pid, ...name] = row.split(' ');
+        return { pid, name: name.join(' ') };
+      });
   };
 
   return {
     create,
+    changeEngine,
+    refresh,
+    rebuild,
+    getWrapperVersion,
+    update,
+    updateAll,
     winecfg,
     regedit,
     taskmgr,
@@ -324,5 +878,7 @@ export const useWineApp = () => {
     winefile,
     winetricks,
     runProgram,
+    killWineProcesses,
+    listExecutables,
   };
 };
@@ -0,0 +1,162 @@
+import { execFileSync, spawn } from 'child_process';
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'fs';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const SCRIPT_PATH = join(__dirname, '../../bash/downloadWineEngine.sh');
+const VERSION = 'WS11WineTest';
+const ARCHIVE = Buffer.from('wine engine archive '.repeat(512));
+const CHECKSUM = createHash('sha256').update(ARCHIVE).digest('hex');
+
+let binPath: string;
+let enginesPath: string;
+let server: Server;
+let archiveUrl: string;
+let requests: IncomingMessage[];
+
+/**
+ * Runs the script like the apps do, where sh is bash as on macOS.
+ */
+const runScript = (env: Record<string, string>) => {
+  return new Promise<{ code: number | null; stdout: string; stderr: string }>(
+    (resolve) => {
+      const child = spawn('bash', [SCRIPT_PATH], {
+        env: { ...process.env, PATH: `${binPath}:${process.env.PATH}`, ...env },
+      });
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (data) => (stdout += data));
+      child.stderr.on('data', (data) => (stderr += data));
+      child.on('close', (code) => resolve({ code, stdout, stderr }));
+    }
+  );
+};
+
+const archivePath = () => join(enginesPath, `${VERSION}.tar.7z`);
+const partPath = () => `${archivePath()}.part`;
+
+const download = (env?: Record<string, string>) =>
+  runScript({
+    WINE_ENGINES_PATH: enginesPath,
+    WINE_ENGINE_VERSION: VERSION,
+    WINE_ENGINE_URL: archiveUrl,
+    WINE_ENGINE_SIZE: `${ARCHIVE.length}`,
+    WINE_ENGINE_CHECKSUM: CHECKSUM,
+    ...env,
+  });
+
+describe('downloadWineEngine.sh', () => {
+  beforeAll((done) => {
+    binPath = mkdtempSync(join(tmpdir(), 'wine-bin-'));
+    symlinkSync(
+      execFileSync('which', ['bash']).toString().trim(),
+      join(binPath, 'sh')
+    );
+
+    server = createServer((request, response) => {
+      requests.push(request);
+      const range = request.headers.range?.match(/^bytes=(\d+)-$/);
+      if (range) {
+        const start = Number(range[1]);
+        response.writeHead(206, {
+          'Content-Length': ARCHIVE.length - start,
+          'Content-Range': `bytes ${start}-${ARCHIVE.length - 1}/${
+            ARCHIVE.length
+          }`,
+        });
+        response.end(ARCHIVE.subarray(start));
+        return;
+      }
+      response.writeHead(200, { 'Content-Length': ARCHIVE.length });
+      response.end(ARCHIVE);
+    });
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      archiveUrl = `http://127.0.0.1:${port}/${VERSION}.tar.7z`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    rmSync(binPath, { recursive: true, force: true });
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    enginesPath = mkdtempSync(join(tmpdir(), 'wine-engines-'));
+    requests = [];
+  });
+
+  afterEach(() => {
+    rmSync(enginesPath, { recursive: true, force: true });
+  });
+
+  it('stores the archive printing its byte progress', async () => {
+    const { code, stdout } = await download();
+
+    expect(code).toBe(0);
+    expect(readFileSync(archivePath())).toEqual(ARCHIVE);
+    expect(existsSync(partPath())).toBe(false);
+    expect(stdout).toContain(`::progress::${ARCHIVE.length}/${ARCHIVE.length}`);
+  });
+
+  it('resumes partial downloads', async () => {
+    writeFileSync(partPath(), ARCHIVE.subarray(0, 1000));
+
+    const { code } = await download();
+
+    expect(code).toBe(0);
+    expect(requests[0].headers.range).toBe('bytes=1000-');
+    expect(readFileSync(archivePath())).toEqual(ARCHIVE);
+  });
+
+  it('deletes the download on checksum mismatch', async () => {
+    const { code, stderr } = await download({
+      WINE_ENGINE_CHECKSUM: createHash('sha256').update('other').digest('hex'),
+    });
+
+    expect(code).toBe(1);
+    expect(stderr).toContain('Checksum mismatch');
+    expect(existsSync(partPath())).toBe(false);
+    expect(existsSync(archivePath())).toBe(false);
+  });
+
+  it('deletes the download on size mismatch', async () => {
+    const { code, stderr } = await download({
+      WINE_ENGINE_SIZE: `${ARCHIVE.length + 1}`,
+    });
+
+    expect(code).toBe(1);
+    expect(stderr).toContain('Size mismatch');
+    expect(existsSync(partPath())).toBe(false);
+    expect(existsSync(archivePath())).toBe(false);
+  });
+
+  it('requires a checksum', async () => {
+    const { code, stderr } = await download({ WINE_ENGINE_CHECKSUM: '' });
+
+    expect(code).toBe(1);
+    expect(stderr).toContain('No checksum');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('skips stored engines', async () => {
+    writeFileSync(archivePath(), ARCHIVE);
+
+    const { code, stdout } = await download();
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('already stored');
+    expect(requests).toHaveLength(0);
+  });
+});
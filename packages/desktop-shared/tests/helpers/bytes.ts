@@ -0,0 +1,22 @@
+/**
+ * Null terminated string encoders and a byte concat, used to build
+ * binary file fixtures.
+ */
+export const ansi = (text: string) =>
+  Uint8Array.from(`${text}\0`, (char) => char.charCodeAt(0));
+
+export const utf16 = (text: string) =>
+  new Uint8Array(
+    Uint16Array.from(`${text}\0`, (char) => char.charCodeAt(0)).buffer
+  );
+
+export const concat = (parts: Uint8Array[]) => {
+  const data = new Uint8Array(
+    parts.reduce((size, part) => size + part.length, 0)
+  );
+  parts.reduce(
+    (offset, part) => (data.set(part, offset), offset + part.length),
+    0
+  );
+  return data;
+};
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment jsdom
+ */
+import { buildPlist } from '../../src/utils/buildPlist';
+
+describe('buildPlist', () => {
+  it('builds every value type', () => {
+    const plist = buildPlist({
+      CFBundleName: 'App',
+      LSUIElement: false,
+      NSHighResolutionCapable: true,
+      Count: 3,
+      Ratio: 1.5,
+      Date: new Date('2023-01-02T03:04:05.678Z'),
+      Data: new Uint8Array([0, 1, 254, 255]),
+      Empty: [],
+      Nested: {},
+      Missing: undefined,
+    });
+
+    expect(plist).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+        '<plist version="1.0">',
+        '<dict>',
+        '  <key>CFBundleName</key>',
+        '  <string>App</string>',
+        '  <key>LSUIElement</key>',
+        '  <false/>',
+        '  <key>NSHighResolutionCapable</key>',
+        '  <true/>',
+        '  <key>Count</key>',
+        '  <integer>3</integer>',
+        '  <key>Ratio</key>',
+        '  <real>1.5</real>',
+        '  <key>Date</key>',
+        '  <date>2023-01-02T03:04:05Z</date>',
+        '  <key>Data</key>',
+        '  <data>AAH+/w==</data>',
+        '  <key>Empty</key>',
+        '  <array/>',
+        '  <key>Nested</key>',
+        '  <dict/>',
+        '</dict>',
+        '</plist>',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('escapes XML special characters in keys and strings', () => {
+    const plist = buildPlist({ 'A&B': `<Tom & Jerry's "App">` });
+
+    expect(plist).toContain('<key>A&amp;B</key>');
+    expect(plist).toContain(
+      '<string>&lt;Tom &amp; Jerry&apos;s &quot;App&quot;&gt;</string>'
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { compareVersions } from '../../src/utils/compareVersions';
+
+describe('compareVersions', () => {
+  it('compares every part numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.9')).toBeGreaterThan(0);
+    expect(compareVersions('1.2', '1.2.1')).toBeLessThan(0);
+    expect(compareVersions('1.2.0', '1.2')).toBe(0);
+  });
+
+  it('reads the leading digits of pre-release parts', () => {
+    expect(compareVersions('1.0-beta', '1.0')).toBe(0);
+    expect(compareVersions('1.1-beta', '1.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.0-beta', '1.0.1')).toBeLessThan(0);
+  });
+
+  it('reads parts without digits as 0', () => {
+    expect(compareVersions('', '0')).toBe(0);
+    expect(compareVersions('1.x', '1.0')).toBe(0);
+  });
+});
@@ -0,0 +1,142 @@
+import { parseLnk } from '../../src/utils/parseLnk';
+import { ansi, concat, utf16 } from '../helpers/bytes';
+
+const HAS_LINK_INFO = 0x2;
+const HAS_WORKING_DIR = 0x10;
+const HAS_ARGUMENTS = 0x20;
+const IS_UNICODE = 0x80;
+const HAS_EXP_STRING = 0x200;
+
+const buildHeader = (flags: number) => {
+  const data = new Uint8Array(0x4c);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, 0x4c, true);
+  view.setUint32(20, flags, true);
+  view.setInt32(56, 2, true);
+  return data;
+};
+
+/**
+ * Builds a link info with a local base path and an empty common
+ * path suffix, stored as ANSI or, with a bigger header, as Unicode.
+ */
+const buildLinkInfo = (path: string, unicode: boolean) => {
+  const headerSize = unicode ? 0x24 : 0x1c;
+  const strings = unicode
+    ? [ansi(''), ansi(''), utf16(path), utf16('')]
+    : [ansi(path), ansi('')];
+  const data = concat([new Uint8Array(headerSize), ...strings]);
+  const view = new DataView(data.buffer);
+  const offsets = strings.reduce<number[]>(
+    (items, string, i) => [
+      ...items,
+      i ? items[i - 1] + strings[i - 1].length : headerSize,
+    ],
+    []
+  );
+
+  view.setUint32(0, data.length, true);
+  view.setUint32(4, headerSize, true);
+  view.setUint32(8, 1, true);
+  view.setUint32(16, offsets[0], true);
+  view.setUint32(24, offsets[1], true);
+  if (unicode) {
+    view.setUint32(28, offsets[2], true);
+    view.setUint32(32, offsets[3], true);
+  }
+  return data;
+};
+
+const buildStringData = (text: string, unicode: boolean) => {
+  const data = unicode ? utf16(text).slice(0, -2) : ansi(text).slice(0, -1);
+  const count = new Uint8Array(2);
+  new DataView(count.buffer).setUint16(0, text.length, true);
+  return concat([count, data]);
+};
+
+const buildEnvVarBlock = (target: string) => {
+  const data = new Uint8Array(0x314);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, data.length, true);
+  view.setUint32(4, 0xa0000001, true);
+  data.set(ansi(target), 8);
+  data.set(utf16(target), 268);
+  return data;
+};
+
+describe('parseLnk', () => {
+  it('reads Unicode targets and string data', () => {
+    const flags = HAS_LINK_INFO | HAS_WORKING_DIR | HAS_ARGUMENTS | IS_UNICODE;
+    const link = parseLnk(
+      concat([
+        buildHeader(flags),
+        buildLinkInfo('C:\\Program Files\\Ünicode ゲーム\\game.exe', true),
+        buildStringData('C:\\Program Files\\Ünicode ゲーム', true),
+        buildStringData('-windowed', true),
+        new Uint8Array(4),
+      ])
+    );
+
+    expect(link).toEqual({
+      iconIndex: 2,
+      targetPath: 'C:\\Program Files\\Ünicode ゲーム\\game.exe',
+      workingDir: 'C:\\Program Files\\Ünicode ゲーム',
+      arguments: '-windowed',
+    });
+  });
+
+  it('reads ANSI targets and string data', () => {
+    const flags = HAS_LINK_INFO | HAS_WORKING_DIR;
+    const link = parseLnk(
+      concat([
+        buildHeader(flags),
+        buildLinkInfo('C:\\Jeux\\Café\\cafe.exe', false),
+        buildStringData('C:\\Jeux\\Café', false),
+      ])
+    );
+
+    expect(link).toEqual({
+      iconIndex: 2,
+      targetPath: 'C:\\Jeux\\Café\\cafe.exe',
+      workingDir: 'C:\\Jeux\\Café',
+    });
+  });
+
+  it('expands env var targets to wine prefix paths', () => {
+    const flags = HAS_WORKING_DIR | IS_UNICODE | HAS_EXP_STRING;
+    const link = parseLnk(
+      concat([
+        buildHeader(flags),
+        buildStringData('%ProgramFiles(x86)%\\App', true),
+        buildEnvVarBlock('%ProgramFiles(x86)%\\App\\app.exe'),
+        new Uint8Array(4),
+      ])
+    );
+
+    expect(link).toEqual({
+      iconIndex: 2,
+      targetPath: 'C:\\Program Files (x86)\\App\\app.exe',
+      workingDir: 'C:\\Program Files (x86)\\App',
+    });
+  });
+
+  it('keeps unknown env vars', () => {
+    const link = parseLnk(
+      concat([
+        buildHeader(HAS_EXP_STRING),
+        buildEnvVarBlock('%UserProfile%\\app.exe'),
+      ])
+    );
+
+    expect(link.targetPath).toBe('%UserProfile%\\app.exe');
+  });
+
+  it('throws for files that are not shell links', () => {
+    expect(() => parseLnk(new Uint8Array(0x10))).toThrow(
+      'Not a shell link file'
+    );
+    expect(() => parseLnk(new Uint8Array(0x4c))).toThrow(
+      'Not a shell link file'
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { parsePe } from '../../src/utils/parsePe';
+import { concat, utf16 } from '../helpers/bytes';
+
+const SECTION_OFFSET = 0x200;
+const SECTION_RVA = 0x1000;
+
+const pad4 = (parts: Uint8Array[]) => {
+  const size = parts.reduce((total, part) => total + part.length, 0);
+  return [...parts, new Uint8Array(((size + 3) & ~3) - size)];
+};
+
+/**
+ * Builds a VS_VERSIONINFO node: length, value length, type, key,
+ * value and children, each one aligned to 4 bytes.
+ */
+const buildVersionBlock = (
+  key: string,
+  value: Uint8Array,
+  type: number,
+  children: Uint8Array[] = []
+) => {
+  const header = new Uint8Array(6);
+  const data = concat(
+    pad4([...pad4([header, utf16(key)]), value]).concat(
+      children.flatMap((child) => pad4([child]))
+    )
+  );
+  const view = new DataView(data.buffer);
+  view.setUint16(0, data.length, true);
+  view.setUint16(2, type === 1 ? value.length / 2 : value.length, true);
+  view.setUint16(4, type, true);
+  return data;
+};
+
+const buildVersionResource = (strings: Record<string, string>) =>
+  buildVersionBlock('VS_VERSION_INFO', new Uint8Array(52), 0, [
+    buildVersionBlock('StringFileInfo', new Uint8Array(), 1, [
+      buildVersionBlock(
+        '040904b0',
+        new Uint8Array(),
+        1,
+        Object.entries(strings).map(([key, value]) =>
+          buildVersionBlock(key, utf16(value), 1)
+        )
+      ),
+    ]),
+  ]);
+
+/**
+ * Builds a resource section with a single type > name > language
+ * path leading to the given data.
+ */
+const buildResources = (type: number, resource: Uint8Array) => {
+  const data = new Uint8Array(0x58 + resource.length);
+  const view = new DataView(data.buffer);
+  const setDirectory = (offset: number, id: number, entry: number) => {
+    view.setUint16(offset + 14, 1, true);
+    view.setUint32(offset + 16, id, true);
+    view.setUint32(offset + 20, entry, true);
+  };
+
+  setDirectory(0, type, 0x80000000 | 0x18);
+  setDirectory(0x18, 1, 0x80000000 | 0x30);
+  setDirectory(0x30, 0x409, 0x48);
+  view.setUint32(0x48, SECTION_RVA + 0x58, true);
+  view.setUint32(0x4c, resource.length, true);
+  data.set(resource, 0x58);
+  return data;
+};
+
+const buildPe = ({
+  is64Bit = false,
+  subsystem = 2,
+  resources,
+  optionalHeaderSize = is64Bit ? 240 : 224,
+}: {
+  is64Bit?: boolean;
+  subsystem?: number;
+  resources?: Uint8Array;
+  optionalHeaderSize?: number;
+}) => {
+  const data = new Uint8Array(SECTION_OFFSET + (resources?.length || 0));
+  const view = new DataView(data.buffer);
+  const optionalHeader = 0x40 + 24;
+  const dataDirectory = optionalHeader + (is64Bit ? 112 : 96);
+
+  view.setUint16(0, 0x5a4d, true);
+  view.setUint32(0x3c, 0x40, true);
+  view.setUint32(0x40, 0x4550, true);
+  view.setUint16(0x44, is64Bit ? 0x8664 : 0x14c, true);
+  view.setUint16(0x46, 1, true);
+  view.setUint16(0x54, optionalHeaderSize, true);
+  view.setUint16(optionalHeader, is64Bit ? 0x20b : 0x10b, true);
+  view.setUint16(optionalHeader + 68, subsystem, true);
+  view.setUint32(dataDirectory - 4, 16, true);
+
+  if (resources) {
+    const section = optionalHeader + optionalHeaderSize;
+    view.setUint32(dataDirectory + 16, SECTION_RVA, true);
+    view.setUint32(dataDirectory + 20, resources.length, true);
+    view.setUint32(section + 8, resources.length, true);
+    view.setUint32(section + 12, SECTION_RVA, true);
+    view.setUint32(section + 16, resources.length, true);
+    view.setUint32(section + 20, SECTION_OFFSET, true);
+    data.set(resources, SECTION_OFFSET);
+  }
+
+  return data;
+};
+
+const readBytes = (data: Uint8Array) => (offset: number, length: number) =>
+  Promise.resolve(data.subarray(offset, offset + length));
+
+describe('parsePe', () => {
+  it('reads GUI executables with their version strings', async () => {
+    const data = buildPe({
+      resources: buildResources(
+        16,
+        buildVersionResource({
+          CompanyName: 'Tom & Jerry',
+          ProductName: ' Café ',
+          FileVersion: '1.2.3.4',
+          Comments: 'Ignored',
+        })
+      ),
+    });
+
+    await expect(parsePe(readBytes(data))).resolves.toEqual({
+      machine: 'x86',
+      is64Bit: false,
+      subsystem: 'gui',
+      versionInfo: {
+        companyName: 'Tom & Jerry',
+        productName: 'Café',
+        fileVersion: '1.2.3.4',
+      },
+    });
+  });
+
+  it('reads console executables without resources', async () => {
+    const data = buildPe({ is64Bit: true, subsystem: 3 });
+
+    await expect(parsePe(readBytes(data))).resolves.toEqual({
+      machine: 'x64',
+      is64Bit: true,
+      subsystem: 'console',
+    });
+  });
+
+  it('skips resources without a version resource', async () => {
+    const data = buildPe({
+      resources: buildResources(3, new Uint8Array(16)),
+    });
+
+    await expect(parsePe(readBytes(data))).resolves.toEqual({
+      machine: 'x86',
+      is64Bit: false,
+      subsystem: 'gui',
+    });
+  });
+
+  it('throws for files that are not PE images', async () => {
+    const data = buildPe({});
+    data[0] = 0;
+
+    await expect(parsePe(readBytes(data))).rejects.toBe('Not a PE file');
+  });
+
+  it('throws for empty optional headers', async () => {
+    const data = buildPe({ optionalHeaderSize: 0 });
+
+    await expect(parsePe(readBytes(data))).rejects.toBe('Not a PE file');
+  });
+
+  it('throws for truncated files', async () => {
+    const data = buildPe({
+      resources: buildResources(16, buildVersionResource({})),
+    });
+
+    for (const size of [0, 0x30, 0x50, 0x100, SECTION_OFFSET + 0x20]) {
+      await expect(parsePe(readBytes(data.subarray(0, size)))).rejects.toBe(
+        'Not a PE file'
+      );
+    }
+  });
+});
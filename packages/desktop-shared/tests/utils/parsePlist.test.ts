@@ -0,0 +1,49 @@
+/**
+ * @jest-environment jsdom
+ */
+import { buildPlist } from '../../src/utils/buildPlist';
+import { parsePlist } from '../../src/utils/parsePlist';
+
+describe('parsePlist', () => {
+  it('round-trips the built plists', () => {
+    const value = {
+      CFBundleName: `<Tom & Jerry's "App">`,
+      NSHighResolutionCapable: true,
+      LSUIElement: false,
+      Count: 3,
+      Ratio: 1.5,
+      Date: new Date('2023-01-02T03:04:05Z'),
+      Data: new Uint8Array([0, 1, 254, 255]),
+      CFBundleDocumentTypes: [
+        {
+          CFBundleTypeName: 'Text',
+          CFBundleTypeRole: 'Viewer',
+          CFBundleTypeExtensions: ['txt', 'log'],
+        },
+      ],
+      Empty: [],
+      Nested: {},
+    };
+
+    expect(parsePlist(buildPlist(value))).toEqual(value);
+  });
+
+  it('decodes data split across lines', () => {
+    const plist = parsePlist(
+      '<plist version="1.0"><data>\n\tAAH+\n\t/w==\n</data></plist>'
+    );
+
+    expect(plist).toEqual(new Uint8Array([0, 1, 254, 255]));
+  });
+
+  it('throws for invalid documents', () => {
+    expect(() => parsePlist('<plist>')).toThrow('Plist is not valid XML');
+    expect(() => parsePlist('<dict/>')).toThrow('Plist root element not found');
+    expect(() =>
+      parsePlist('<plist><dict><string>a</string></dict></plist>')
+    ).toThrow('Invalid plist dict at key a');
+    expect(() => parsePlist('<plist><set/></plist>')).toThrow(
+      'Unsupported plist element <set>'
+    );
+  });
+});
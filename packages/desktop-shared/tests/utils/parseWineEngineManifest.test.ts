@@ -0,0 +1,69 @@
+import { parseWineEngineManifest } from '../../src/utils/parseWineEngineManifest';
+
+const CHECKSUM =
+  '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08';
+
+const manifest = {
+  engines: [
+    {
+      version: 'WS11WineCX64Bit22.0.1',
+      url: 'https://example.com/WS11WineCX64Bit22.0.1.tar.7z',
+      size: 4,
+      checksum: CHECKSUM,
+    },
+    {
+      version: 'WS11WineCX64Bit22.1.1-rc2',
+      url: 'https://mega.nz/file/VF4mSCpQ',
+    },
+  ],
+};
+
+describe('parseWineEngineManifest', () => {
+  it('keeps the engines with a verified archive', () => {
+    expect(parseWineEngineManifest(JSON.stringify(manifest))).toEqual({
+      engines: [manifest.engines[0], { version: 'WS11WineCX64Bit22.1.1-rc2' }],
+    });
+  });
+
+  it('lists engines without a verified archive as import only', () => {
+    const data = JSON.stringify({
+      engines: [
+        {
+          version: 'no-size',
+          url: 'https://example.com/a',
+          checksum: CHECKSUM,
+        },
+        {
+          version: 'bad-checksum',
+          url: 'https://example.com/a',
+          size: 4,
+          checksum: 'abc',
+        },
+        {
+          version: 'no-http',
+          url: 'ftp://example.com/a',
+          size: 4,
+          checksum: CHECKSUM,
+        },
+      ],
+    });
+
+    expect(parseWineEngineManifest(data).engines).toEqual([
+      { version: 'no-size' },
+      { version: 'bad-checksum' },
+      { version: 'no-http' },
+    ]);
+  });
+
+  it('throws for corrupt manifests', () => {
+    expect(() => parseWineEngineManifest('{"engines": [')).toThrow(
+      /Wine engines manifest is corrupt/
+    );
+    expect(() => parseWineEngineManifest('{}')).toThrow(
+      'Wine engines manifest has no engines list'
+    );
+    expect(() => parseWineEngineManifest('{"engines": [{}]}')).toThrow(
+      'Wine engines manifest has an engine without version'
+    );
+  });
+});
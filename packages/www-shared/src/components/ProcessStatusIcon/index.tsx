@@ -19,6 +19,12 @@ const icons: Record<ProcessStatus, () => JSXElement> = {
   cancelled: () => (
     <Image src={CancelledIcon} style="width: 20px; height: 20px;" />
   ),
+  skipped: () => (
+    <Image
+      src={CancelledIcon}
+      style="width: 20px; height: 20px; opacity: 0.4;"
+    />
+  ),
 };
 
 export const ProcessStatusIcon: Component<ProcessStatusIconProps> = (props) => (
@@ -3,4 +3,5 @@ export type ProcessStatus =
   | 'success'
   | 'pending'
   | 'cancelled'
+  | 'skipped'
   | 'error';
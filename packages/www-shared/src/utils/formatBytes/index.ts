@@ -0,0 +1,11 @@
+export const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let index = 0;
+
+  while (bytes >= 1024 && index < units.length - 1) {
+    bytes /= 1024;
+    index++;
+  }
+
+  return `${index ? bytes.toFixed(1) : bytes} ${units[index]}`;
+};
@@ -1,6 +1,8 @@
 export * from './capitalize';
 export * from './classToClassList';
 export * from './debounce';
+export * from './formatBytes';
+export * from './formatDuration';
 export * from './parseSize';
 export * from './pxToRem';
 export * from './strReplacer';